@@ -1,33 +1,82 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import * as XLSX from 'xlsx';
 import { 
   IconCpu, 
   IconWrench, 
   IconAlert, 
-  IconLink,
   IconUpload,
   IconFileText,
   IconCamera,
-  IconX
+  IconX,
+  IconStop,
+  IconSettings,
+  IconSliders,
+  IconPen
 } from './components/Icons';
-import { analyzeRepairIssue } from './services/geminiService';
-import { AppState, RepairAnalysis } from './types';
+import { analyzeRepairIssueStream, askFollowUpStream, isConnectivityError } from './services/geminiService';
+import { classifyError } from './services/errorService';
+import {
+  loadLibraryItems,
+  saveLibraryItems,
+  saveLibraryItem,
+  deleteLibraryItem,
+  loadDiagnosisHistory,
+  saveDiagnosisRecord,
+  deleteDiagnosisRecord,
+  loadTickets,
+  saveTicket,
+  deleteTicket,
+  loadDocuments,
+  saveDocument,
+  deleteDocument
+} from './services/storageService';
+import { buildLibraryIndex, searchLibrary, buildKnowledgeContext } from './services/retrievalService';
+import { buildChecklist, formatMeasurementLog } from './services/checklistService';
+import { buildArchiveAnalysis, buildOfflineAnalysis, OFFLINE_LIMIT, OFFLINE_MIN_SIMILARITY } from './services/offlineService';
+import { ImportSheet, sheetsFromWorkbook, sheetFromJson, exportLibraryToXlsx, exportLibraryToJson } from './services/libraryService';
+import { loadProviderSettings, saveProviderSettings, loadSourcePreferences, saveSourcePreferences } from './services/settingsService';
+import { loadPromptProfiles, savePromptProfiles, loadActiveProfileId, saveActiveProfileId, findProfile } from './services/promptProfileService';
+import { createProvider } from './services/llmProvider';
+import { ComparisonCandidate, ComparisonConfig, configLabel, defaultComparisonConfigs, mergeAnalyses, profileForConfig } from './services/comparisonService';
+import { attachDiagnosis, workOrderInfoFromTicket } from './services/ticketService';
+import { DOCUMENT_ACCEPT, readReferenceDocument, documentsForDevice, selectExcerpts, citationLabel } from './services/documentService';
+import { MAX_IMAGES, IMAGE_PAYLOAD_BUDGET, prepareImageFile, fitImagesToBudget, payloadSize } from './services/imageService';
+import { AppState, RepairAnalysis, LibraryItem, ImageAttachment, DiagnosisRecord, FollowUpTurn, ChecklistStep, ProviderSettings, RepairTicket, ReferenceDocument, PromptProfile, SourcePreferences, LibraryMatch, DocumentExcerpt } from './types';
 import MarkdownRenderer from './components/MarkdownRenderer';
+import HistoryView from './components/HistoryView';
+import FollowUpThread from './components/FollowUpThread';
+import RepairReportView from './components/RepairReportView';
+import WorkModeChecklist from './components/WorkModeChecklist';
+import SaveToLibraryForm from './components/SaveToLibraryForm';
+import WorkOrderForm from './components/WorkOrderForm';
+import ImportWizard, { ImportMode } from './components/ImportWizard';
+import SettingsPanel from './components/SettingsPanel';
+import PromptProfilesPanel from './components/PromptProfilesPanel';
+import LibraryView from './components/LibraryView';
+import TicketsView from './components/TicketsView';
+import TicketDetail from './components/TicketDetail';
+import CameraCapture from './components/CameraCapture';
+import ImageAnnotator from './components/ImageAnnotator';
+import DocumentLibrary from './components/DocumentLibrary';
+import SourceList from './components/SourceList';
+import AnalyticsView from './components/AnalyticsView';
+import ComparisonSetup from './components/ComparisonSetup';
+import ComparisonView from './components/ComparisonView';
+import ErrorNotice, { ErrorInfo } from './components/ErrorNotice';
 
-type ViewMode = 'diagnose' | 'library';
+type ViewMode = 'diagnose' | 'library' | 'history' | 'tickets' | 'stats';
 
-interface LibraryItem {
-  id: string;
-  name: string;
-  category: string;
-  description: string;
-  analysis?: string;
-}
+/** 清单逐字输入时，停顿这么久才把记录（含照片）写入本地存储 */
+const CHECKLIST_SAVE_DELAY = 800;
 
-interface ImageAttachment {
-  id: string;
-  data: string;
-  mimeType: string;
+interface PreparedDiagnosis {
+  description: string;
+  ticketId?: string;
+  sentImages: ImageAttachment[];
+  apiImages: { data: string; mimeType: string }[];
+  references: LibraryMatch[];
+  kbContext: string | undefined;
+  excerpts: DocumentExcerpt[];
 }
 
 const App: React.FC = () => {
@@ -37,71 +86,367 @@ const App: React.FC = () => {
   // Diagnosis State
   const [description, setDescription] = useState('');
   const [images, setImages] = useState<ImageAttachment[]>([]);
+  // 照片在压缩完成后异步加入，数量上限按最新的列表判断
+  const imagesRef = useRef<ImageAttachment[]>([]);
+  imagesRef.current = images;
+  const [showCamera, setShowCamera] = useState(false);
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+  // 技术文档：documents 为按型号登记的文档，attachedDocs 仅用于本次诊断
+  const [documents, setDocuments] = useState<ReferenceDocument[]>([]);
+  const [attachedDocs, setAttachedDocs] = useState<ReferenceDocument[]>([]);
+  const [isReadingDocs, setIsReadingDocs] = useState(false);
+  const docInputRef = useRef<HTMLInputElement>(null);
   const [analysisResult, setAnalysisResult] = useState<RepairAnalysis | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const setErrorMsg = (message: string | null) => setError(message ? { message } : null);
+  // 模型调用失败：按错误类别给出说明和建议操作，无法归类时使用 fallback
+  const showModelError = (err: unknown, fallback: string) => {
+    const classified = classifyError(err);
+    setError({
+      message: classified.category === 'unknown' ? fallback : classified.message,
+      action: classified.action,
+      detail: classified.detail,
+    });
+  };
   const [isLibraryView, setIsLibraryView] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [showRawText, setShowRawText] = useState(false);
+  const [workMode, setWorkMode] = useState(false);
+  const [isSavingToLibrary, setIsSavingToLibrary] = useState(false);
+  const [isExportingWorkOrder, setIsExportingWorkOrder] = useState(false);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   
   // Library State
   const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; sheets: ImportSheet[] } | null>(null);
+  const libraryIndex = useMemo(() => buildLibraryIndex(libraryItems), [libraryItems]);
+  const libraryCategories = useMemo(() => Array.from(new Set(libraryItems.map(i => i.category))).sort(), [libraryItems]);
+
+  // History State
+  const [history, setHistory] = useState<DiagnosisRecord[]>([]);
+  const [activeRecord, setActiveRecord] = useState<DiagnosisRecord | null>(null);
+  // 异步回调（如照片压缩完成）里读取最新的记录，避免用旧快照覆盖期间的修改
+  const activeRecordRef = useRef<DiagnosisRecord | null>(null);
+  activeRecordRef.current = activeRecord;
+
+  // Settings State
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [sourcePreferences, setSourcePreferences] = useState<SourcePreferences>(loadSourcePreferences);
+  const [showSettings, setShowSettings] = useState(false);
+  const capabilities = useMemo(() => createProvider(providerSettings).capabilities, [providerSettings]);
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfile[]>(loadPromptProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
+  const [showProfiles, setShowProfiles] = useState(false);
 
+  // 多配置对比
+  const [comparisonSetup, setComparisonSetup] = useState<ComparisonConfig[] | null>(null);
+  const [comparison, setComparison] = useState<{ prepared: PreparedDiagnosis; candidates: ComparisonCandidate[] } | null>(null);
+  const activeProfile = findProfile(promptProfiles, activeProfileId);
+
+  // Follow-up State
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [followUpText, setFollowUpText] = useState('');
+
+  // 维修工单；diagnosisTicketId 为新诊断要归入的工单
+  const [tickets, setTickets] = useState<RepairTicket[]>([]);
+  const ticketsRef = useRef<RepairTicket[]>([]);
+  ticketsRef.current = tickets;
+  const [openTicketId, setOpenTicketId] = useState<string | null>(null);
+  const [diagnosisTicketId, setDiagnosisTicketId] = useState<string | null>(null);
+  const diagnosisTicket = tickets.find(t => t.id === diagnosisTicketId) || null;
+  const openTicket = tickets.find(t => t.id === openTicketId) || null;
+  const activeRecordTicket = tickets.find(t => t.id === activeRecord?.ticketId) || null;
+  const matchedDocs = useMemo(
+    () => documentsForDevice(documents, description, diagnosisTicket?.model),
+    [documents, description, diagnosisTicket]
+  );
+
+  useEffect(() => {
+    loadLibraryItems().then(setLibraryItems).catch(() => setErrorMsg("本地案例库读取失败"));
+    loadDiagnosisHistory().then(setHistory).catch(() => setErrorMsg("诊断历史读取失败"));
+    loadTickets().then(setTickets).catch(() => setErrorMsg("维修工单读取失败"));
+    loadDocuments().then(setDocuments).catch(() => setErrorMsg("技术文档读取失败"));
+  }, []);
+
+  const addImage = (image: ImageAttachment) => {
+    if (imagesRef.current.length >= MAX_IMAGES) {
+      setErrorMsg(`最多上传 ${MAX_IMAGES} 张照片`);
+      return;
+    }
+    imagesRef.current = [...imagesRef.current, image];
+    setImages(imagesRef.current);
+  };
+
+  // 上传的照片在本地纠正方向并压缩后再加入，原图不会发送
   const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
     Array.from(files).forEach((file: File) => {
       if (!file.type.startsWith('image/')) return;
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        setImages(prev => [...prev, {
-          id: Date.now() + Math.random().toString(),
-          data: base64String,
-          mimeType: file.type
-        }]);
-      };
-      reader.readAsDataURL(file);
+      prepareImageFile(file).then(addImage).catch(() => setErrorMsg(`照片 ${file.name} 无法读取`));
     });
     if (imageInputRef.current) imageInputRef.current.value = '';
   };
 
+  const handleDocumentSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (docInputRef.current) docInputRef.current.value = '';
+    setIsReadingDocs(true);
+    for (const file of files) {
+      try {
+        const doc = await readReferenceDocument(file);
+        setAttachedDocs(prev => [...prev, doc]);
+      } catch (err: any) {
+        setErrorMsg(err.message || `《${file.name}》读取失败`);
+      }
+    }
+    setIsReadingDocs(false);
+  };
+
+  const registerDocument = async (file: File, model: string) => {
+    const doc = await readReferenceDocument(file, model);
+    setDocuments(prev => [...prev, doc]);
+    await saveDocument(doc).catch(() => { throw new Error("技术文档保存失败"); });
+  };
+
+  const removeDocument = (id: string) => {
+    setDocuments(prev => prev.filter(d => d.id !== id));
+    deleteDocument(id).catch(() => setErrorMsg("删除技术文档失败"));
+  };
+
+  const saveAnnotation = (image: ImageAttachment) => {
+    setImages(prev => prev.map(img => (img.id === image.id ? image : img)));
+    setAnnotatingId(null);
+  };
+
   const removeImage = (id: string) => {
     setImages(prev => prev.filter(img => img.id !== id));
   };
 
-  const handleSubmit = async (overrideDescription?: string) => {
-    const finalDesc = overrideDescription || description;
-    if (!finalDesc.trim() && images.length === 0) {
+  const validateInput = (finalDesc: string, finalImages: ImageAttachment[]) => {
+    if (!finalDesc.trim() && finalImages.length === 0) {
       setErrorMsg("请描述故障或上传照片");
-      return;
+      return false;
     }
+    return true;
+  };
 
-    setAppState(AppState.ANALYZING);
+  const resetResultViews = () => {
     setErrorMsg(null);
     setIsLibraryView(false);
+    setStreamingText('');
+    setWorkMode(false);
+    setIsSavingToLibrary(false);
+    setIsExportingWorkOrder(false);
+  };
+
+  // 压缩照片、检索案例库和技术文档；单次诊断与多配置对比共用
+  const prepareDiagnosis = async (finalDesc: string, finalImages: ImageAttachment[], ticketId: string | null): Promise<PreparedDiagnosis> => {
+    const sentImages = await fitImagesToBudget(finalImages);
+    if (payloadSize(sentImages) > IMAGE_PAYLOAD_BUDGET) {
+      throw new Error(`照片总体积超出上限（约 ${Math.round(IMAGE_PAYLOAD_BUDGET / 1024 / 1024)}MB），请减少照片数量后重试`);
+    }
+    const ticket = tickets.find(t => t.id === ticketId);
+    const references = searchLibrary(libraryIndex, finalDesc, { deviceName: ticket?.model });
+    const deviceDocs = documentsForDevice(documents, finalDesc, ticket?.model);
+    return {
+      description: finalDesc,
+      ticketId: ticketId || undefined,
+      sentImages,
+      apiImages: sentImages.map(img => ({ data: img.data, mimeType: img.mimeType })),
+      references,
+      kbContext: buildKnowledgeContext(references),
+      excerpts: selectExcerpts(deviceDocs, finalDesc, attachedDocs),
+    };
+  };
+
+  const saveNewRecord = (prepared: PreparedDiagnosis, result: RepairAnalysis, extra: Partial<DiagnosisRecord> = {}) => {
+    const record: DiagnosisRecord = {
+      id: `diag-${Date.now()}`,
+      createdAt: Date.now(),
+      description: prepared.description,
+      images: prepared.sentImages,
+      knowledgeBase: prepared.kbContext,
+      result,
+      ticketId: prepared.ticketId,
+      profile: { id: activeProfile.id, name: activeProfile.name },
+      ...extra
+    };
+    setActiveRecord(record);
+    setHistory(prev => [record, ...prev]);
+    saveDiagnosisRecord(record).catch(() => setErrorMsg("诊断记录保存失败"));
+    // 诊断可能持续数分钟，期间工单可能已被修改，按 id 取最新的工单再关联
+    const ticket = ticketsRef.current.find(t => t.id === prepared.ticketId);
+    if (ticket) updateTicket(attachDiagnosis(ticket, record.id));
+  };
+
+  const handleSubmit = async (overrideDescription?: string, overrideImages?: ImageAttachment[], ticketId = diagnosisTicketId) => {
+    const finalDesc = overrideDescription || description;
+    const finalImages = overrideImages || images;
+    if (!validateInput(finalDesc, finalImages)) return;
+
+    setAppState(AppState.ANALYZING);
+    resetResultViews();
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const apiImages = images.map(img => ({ data: img.data, mimeType: img.mimeType }));
-      let kbContext = undefined;
-      if (libraryItems.length > 0) {
-        kbContext = libraryItems.map((item, index) => 
-          `【案例 ${index + 1}】设备: ${item.name}\n现象: ${item.description}\n方案: ${item.analysis || '无'}`
-        ).join('\n---\n');
-      }
+      const prepared = await prepareDiagnosis(finalDesc, finalImages, ticketId);
+      const { excerpts } = prepared;
 
-      const result = await analyzeRepairIssue(finalDesc, apiImages, kbContext);
+      const analysis = await analyzeRepairIssueStream(finalDesc, prepared.apiImages, prepared.kbContext, {
+        onText: setStreamingText,
+        signal: controller.signal,
+        documents: excerpts,
+        profile: activeProfile,
+        sourcePreferences
+      });
+      const result: RepairAnalysis = { ...analysis, references: prepared.references, documents: excerpts.length > 0 ? excerpts : undefined };
       setAnalysisResult(result);
       setAppState(AppState.SUCCESS);
+      saveNewRecord(prepared, result);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        setErrorMsg("已停止分析");
+      } else if (isConnectivityError(err) && runOfflineDiagnosis(finalDesc, "无法连接模型服务，", ticketId)) {
+        return;
+      } else {
+        showModelError(err, "分析失败。");
+      }
+      setAppState(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreamingText('');
+    }
+  };
+
+  const openComparisonSetup = () => {
+    if (!validateInput(description, images)) return;
+    setComparisonSetup(defaultComparisonConfigs(providerSettings, activeProfile, capabilities.search));
+  };
+
+  const updateCandidate = (id: string, patch: Partial<ComparisonCandidate>) => {
+    setComparison(prev => prev && { ...prev, candidates: prev.candidates.map(c => (c.config.id === id ? { ...c, ...patch } : c)) });
+  };
+
+  // 同一份输入并行交给各配置分析，各自流式更新；单个配置失败不影响其他配置
+  const startComparison = async (configs: ComparisonConfig[]) => {
+    setComparisonSetup(null);
+    setAppState(AppState.COMPARING);
+    resetResultViews();
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const prepared = await prepareDiagnosis(description, images, diagnosisTicketId);
+      const { excerpts } = prepared;
+      setComparison({
+        prepared,
+        candidates: configs.map(config => ({ config, status: 'running', text: '' })),
+      });
+
+      await Promise.all(configs.map(async config => {
+        try {
+          const analysis = await analyzeRepairIssueStream(description, prepared.apiImages, config.useLibrary ? prepared.kbContext : undefined, {
+            onText: text => updateCandidate(config.id, { text }),
+            signal: controller.signal,
+            provider: createProvider(config.settings),
+            documents: excerpts,
+            profile: profileForConfig(activeProfile, config),
+            sourcePreferences
+          });
+          const result: RepairAnalysis = {
+            ...analysis,
+            references: config.useLibrary ? prepared.references : undefined,
+            documents: excerpts.length > 0 ? excerpts : undefined
+          };
+          updateCandidate(config.id, { status: 'done', result });
+        } catch (err: any) {
+          updateCandidate(config.id, { status: 'error', error: controller.signal.aborted ? '已停止' : classifyError(err).message });
+        }
+      }));
     } catch (err: any) {
-      setErrorMsg(err.message || "分析失败，请检查设置或网络后重试。");
+      showModelError(err, "分析失败。");
+      setComparison(null);
       setAppState(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  // 选用一个方案，或把多个方案合并后保存为一条诊断记录
+  const keepComparison = (ids: string[]) => {
+    if (!comparison) return;
+    const kept = comparison.candidates.filter(c => ids.includes(c.config.id) && c.result);
+    if (kept.length === 0) return;
+    const result = kept.length === 1
+      ? kept[0].result!
+      : mergeAnalyses(kept.map(c => ({ label: configLabel(c.config), result: c.result! })));
+    setAnalysisResult(result);
+    setAppState(AppState.SUCCESS);
+    // 记录保留的方案实际用到的案例库与联网设置，而不是当前界面上的方案
+    const usedLibrary = kept.some(c => c.config.useLibrary);
+    saveNewRecord(comparison.prepared, result, {
+      knowledgeBase: usedLibrary ? comparison.prepared.kbContext : undefined,
+      profile: { id: activeProfile.id, name: activeProfile.name, useSearch: kept.some(c => c.config.useSearch) },
+      comparison: {
+        candidates: comparison.candidates.map(c => configLabel(c.config)),
+        kept: kept.map(c => configLabel(c.config))
+      }
+    });
+    setComparison(null);
+  };
+
+  const closeComparison = () => {
+    abortRef.current?.abort();
+    setComparison(null);
+    setAppState(AppState.IDLE);
+  };
+
+  // 仅用本地案例库作答；没有足够相似的案例时返回 false
+  const runOfflineDiagnosis = (query: string, reason: string, ticketId = diagnosisTicketId) => {
+    const deviceName = tickets.find(t => t.id === ticketId)?.model;
+    const matches = searchLibrary(libraryIndex, query, { deviceName, limit: OFFLINE_LIMIT, minSimilarity: OFFLINE_MIN_SIMILARITY });
+    if (matches.length === 0) return false;
+    setAnalysisResult(buildOfflineAnalysis(matches, reason));
+    setActiveRecord(null);
+    setIsLibraryView(true);
+    setErrorMsg(null);
+    setAppState(AppState.SUCCESS);
+    return true;
+  };
+
+  const handleOfflineSubmit = () => {
+    if (!description.trim()) {
+      setErrorMsg("请描述故障现象");
+      return;
+    }
+    if (!runOfflineDiagnosis(description, "")) {
+      setErrorMsg("案例库中没有找到相似的存档案例");
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  const stopAnalysis = () => {
+    abortRef.current?.abort();
+  };
+
   const resetApp = () => {
+    abortRef.current?.abort();
     setAppState(AppState.IDLE);
+    setComparison(null);
+    setComparisonSetup(null);
     setAnalysisResult(null);
+    setActiveRecord(null);
+    setWorkMode(false);
+    setIsSavingToLibrary(false);
+    setIsExportingWorkOrder(false);
     setImages([]);
+    setAttachedDocs([]);
     setDescription('');
     setIsLibraryView(false);
   };
@@ -116,18 +461,27 @@ const App: React.FC = () => {
       reader.onload = (e) => {
         try {
           const json = JSON.parse(e.target?.result as string);
-          if (Array.isArray(json)) processLibraryData(json);
+          if (Array.isArray(json)) setPendingImport({ fileName: file.name, sheets: [sheetFromJson(json)] });
+          else setErrorMsg("JSON 内容须为案例数组");
         } catch (err) { setErrorMsg("JSON 格式错误"); }
       };
       reader.readAsText(file);
+    } else if (fileName.endsWith('.csv')) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const workbook = XLSX.read(e.target?.result as string, { type: 'string' });
+          setPendingImport({ fileName: file.name, sheets: sheetsFromWorkbook(workbook) });
+        } catch (err) { setErrorMsg("CSV 解析失败"); }
+      };
+      reader.readAsText(file);
     } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
           const data = new Uint8Array(e.target?.result as ArrayBuffer);
           const workbook = XLSX.read(data, { type: 'array' });
-          const jsonData = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
-          processLibraryData(jsonData);
+          setPendingImport({ fileName: file.name, sheets: sheetsFromWorkbook(workbook) });
         } catch (err) { setErrorMsg("Excel 解析失败"); }
       };
       reader.readAsArrayBuffer(file);
@@ -135,33 +489,34 @@ const App: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const processLibraryData = (data: any[]) => {
-    const items: LibraryItem[] = data.map((item: any, index) => {
-      const findVal = (keys: string[]) => {
-        const match = Object.keys(item).find(k => keys.includes(k.toLowerCase()));
-        return match ? String(item[match]).trim() : undefined;
-      };
-      const desc = findVal(['description', '描述', '故障', '现象', 'issue']);
-      if (!desc) return null;
-      return {
-        id: `lib-${Date.now()}-${index}`,
-        name: findVal(['name', '设备', '型号', 'title']) || '未知设备',
-        category: '维修存档',
-        description: desc,
-        analysis: findVal(['analysis', '方案', '处理', 'solution'])
-      };
-    }).filter(Boolean) as LibraryItem[];
-    setLibraryItems(items);
+  const confirmImport = (items: LibraryItem[], mode: ImportMode) => {
+    const next = mode === 'merge' ? [...libraryItems, ...items] : items;
+    setLibraryItems(next);
+    setPendingImport(null);
+    saveLibraryItems(next).catch(() => setErrorMsg("案例库保存失败"));
+  };
+
+  const upsertLibraryItem = (item: LibraryItem) => {
+    setLibraryItems(prev => prev.some(i => i.id === item.id) ? prev.map(i => (i.id === item.id ? item : i)) : [item, ...prev]);
+    saveLibraryItem(item).catch(() => setErrorMsg("案例库保存失败"));
+  };
+
+  const removeLibraryItem = (id: string) => {
+    setLibraryItems(prev => prev.filter(i => i.id !== id));
+    deleteLibraryItem(id).catch(() => setErrorMsg("删除案例失败"));
+  };
+
+  const addToLibrary = (item: LibraryItem) => {
+    upsertLibraryItem(item);
+    setIsSavingToLibrary(false);
   };
 
   const selectLibraryItem = (item: LibraryItem) => {
     setDescription(item.description);
+    setIsExportingWorkOrder(false);
     if (item.analysis) {
-      setAnalysisResult({
-        diagnosis: "Archive",
-        rawText: `## ${item.name} - 存档方案\n\n**故障现象**：${item.description}\n\n---\n\n### 📚 历史存档方案\n\n${item.analysis}`,
-        sources: []
-      });
+      setAnalysisResult(buildArchiveAnalysis(item));
+      setActiveRecord(null);
       setAppState(AppState.SUCCESS);
       setIsLibraryView(true);
     } else {
@@ -170,23 +525,233 @@ const App: React.FC = () => {
     setViewMode('diagnose');
   };
 
+  const openHistoryRecord = (record: DiagnosisRecord) => {
+    setDescription(record.description);
+    setDiagnosisTicketId(record.ticketId || null);
+    setImages(record.images);
+    setAnalysisResult(record.result);
+    setActiveRecord(record);
+    setWorkMode(false);
+    setIsSavingToLibrary(false);
+    setIsExportingWorkOrder(false);
+    setErrorMsg(null);
+    setIsLibraryView(false);
+    setAppState(AppState.SUCCESS);
+    setViewMode('diagnose');
+  };
+
+  const rerunHistoryRecord = (record: DiagnosisRecord) => {
+    setDescription(record.description);
+    setImages(record.images);
+    setDiagnosisTicketId(record.ticketId || null);
+    setViewMode('diagnose');
+    handleSubmit(record.description, record.images, record.ticketId || null);
+  };
+
+  const saveRecord = (record: DiagnosisRecord) => {
+    saveDiagnosisRecord(record).catch(() => setErrorMsg("诊断记录保存失败"));
+  };
+
+  // 延迟写入的记录；新的写入或页面隐藏时先把它写掉
+  const pendingSaveRef = useRef<{ record: DiagnosisRecord; timer: number } | null>(null);
+  const cancelPendingSave = () => {
+    const pending = pendingSaveRef.current;
+    if (pending) window.clearTimeout(pending.timer);
+    pendingSaveRef.current = null;
+    return pending?.record;
+  };
+  const flushPendingSave = () => {
+    const record = cancelPendingSave();
+    if (record) saveRecord(record);
+  };
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    return () => window.removeEventListener('pagehide', flushPendingSave);
+  }, []);
+
+  /** deferSave 用于清单输入：连续修改只在停顿后写入一次 */
+  const updateRecord = (record: DiagnosisRecord, deferSave = false) => {
+    activeRecordRef.current = record;
+    setActiveRecord(record);
+    setHistory(prev => prev.map(r => (r.id === record.id ? record : r)));
+    if (pendingSaveRef.current?.record.id !== record.id) flushPendingSave();
+    cancelPendingSave();
+    if (deferSave) {
+      pendingSaveRef.current = { record, timer: window.setTimeout(flushPendingSave, CHECKLIST_SAVE_DELAY) };
+    } else {
+      saveRecord(record);
+    }
+  };
+
+  /** 追问沿用记录的提示词方案；对比诊断保存的记录带有实际使用的联网设置 */
+  const profileOfRecord = (record: DiagnosisRecord): PromptProfile => {
+    const profile = promptProfiles.find(p => p.id === record.profile?.id) || activeProfile;
+    return record.profile?.useSearch === undefined ? profile : { ...profile, useSearch: record.profile.useSearch };
+  };
+
+  const handleFollowUp = async (question: string) => {
+    if (!activeRecord) return;
+    const record = activeRecord;
+    const turns = record.followUps || [];
+
+    setPendingQuestion(question);
+    setFollowUpText('');
+    setErrorMsg(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const answer = await askFollowUpStream(
+        {
+          description: record.description,
+          images: record.images.map(img => ({ data: img.data, mimeType: img.mimeType })),
+          knowledgeBase: record.knowledgeBase,
+          documents: record.result.documents,
+          initialAnswer: record.result.rawText
+        },
+        turns,
+        question,
+        {
+          onText: setFollowUpText,
+          signal: controller.signal,
+          profile: profileOfRecord(record),
+          sourcePreferences
+        }
+      );
+      const turn: FollowUpTurn = {
+        id: `turn-${Date.now()}`,
+        createdAt: Date.now(),
+        question,
+        answer: answer.rawText,
+        sources: answer.sources,
+        searchQueries: answer.searchQueries
+      };
+      updateRecord({ ...record, followUps: [...turns, turn] });
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        showModelError(err, "追问失败。");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPendingQuestion(null);
+      setFollowUpText('');
+    }
+  };
+
+  const toggleWorkMode = () => {
+    if (!activeRecord) return;
+    if (!workMode && !activeRecord.checklist) {
+      updateRecord({ ...activeRecord, checklist: buildChecklist(activeRecord.result) });
+    }
+    setWorkMode(v => !v);
+  };
+
+  /** 按记录 id 更新清单；记录已切换时放弃更新 */
+  const updateChecklist = (recordId: string, update: (steps: ChecklistStep[]) => ChecklistStep[]) => {
+    const record = activeRecordRef.current;
+    if (record?.id === recordId) updateRecord({ ...record, checklist: update(record.checklist || []) }, true);
+  };
+
+  // 将实测记录（含测量照片）附在原始描述之后重新诊断，原记录及其清单保持不变
+  const requestRevisedDiagnosis = () => {
+    if (!activeRecord?.checklist) return;
+    const checklist = activeRecord.checklist;
+    const revisedDesc = `${activeRecord.description}\n\n${formatMeasurementLog(checklist)}`;
+    const photos = checklist.map(step => step.photo).filter((p): p is ImageAttachment => !!p);
+    const revisedImages = [...activeRecord.images, ...photos];
+    setDescription(revisedDesc);
+    setImages(revisedImages);
+    handleSubmit(revisedDesc, revisedImages);
+  };
+
+  const updateProviderSettings = (settings: ProviderSettings, sources: SourcePreferences) => {
+    saveProviderSettings(settings);
+    saveSourcePreferences(sources);
+    setProviderSettings(settings);
+    setSourcePreferences(sources);
+    setShowSettings(false);
+  };
+
+  const updatePromptProfiles = (profiles: PromptProfile[]) => {
+    savePromptProfiles(profiles);
+    setPromptProfiles(profiles);
+    setShowProfiles(false);
+  };
+
+  const selectProfile = (id: string) => {
+    saveActiveProfileId(id);
+    setActiveProfileId(id);
+  };
+
+  const updateTicket = (ticket: RepairTicket) => {
+    setTickets(prev => prev.some(t => t.id === ticket.id) ? prev.map(t => (t.id === ticket.id ? ticket : t)) : [ticket, ...prev]);
+    saveTicket(ticket).catch(() => setErrorMsg("维修工单保存失败"));
+  };
+
+  const removeTicket = (id: string) => {
+    setTickets(prev => prev.filter(t => t.id !== id));
+    setOpenTicketId(null);
+    if (diagnosisTicketId === id) setDiagnosisTicketId(null);
+    deleteTicket(id).catch(() => setErrorMsg("删除维修工单失败"));
+  };
+
+  const startTicketDiagnosis = (ticket: RepairTicket) => {
+    resetApp();
+    setDiagnosisTicketId(ticket.id);
+    setViewMode('diagnose');
+  };
+
+  const backToTicket = (ticketId: string) => {
+    setOpenTicketId(ticketId);
+    setViewMode('tickets');
+  };
+
+  const removeHistoryRecord = (id: string) => {
+    if (pendingSaveRef.current?.record.id === id) cancelPendingSave();
+    if (activeRecord?.id === id) setActiveRecord(null);
+    setHistory(prev => prev.filter(r => r.id !== id));
+    deleteDiagnosisRecord(id).catch(() => setErrorMsg("删除诊断记录失败"));
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-tech-blue text-slate-200">
       <header className="border-b border-gray-800 bg-slate-900/80 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
-          <div className="flex items-center space-x-3 cursor-pointer" onClick={() => { setViewMode('diagnose'); resetApp(); }}>
+          <div className="flex items-center space-x-3 cursor-pointer" onClick={() => { setViewMode('diagnose'); resetApp(); setDiagnosisTicketId(null); }}>
             <div className="bg-circuit-teal/20 p-2 rounded-lg"><IconCpu className="w-6 h-6 text-circuit-teal" /></div>
             <h1 className="text-xl font-bold tracking-tight text-white">产品部维修<span className="text-circuit-teal">助手</span></h1>
           </div>
           <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg">
              <button onClick={() => setViewMode('diagnose')} className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'diagnose' ? 'bg-slate-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}>智能分析</button>
              <button onClick={() => setViewMode('library')} className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'library' ? 'bg-slate-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}>案例库</button>
+             <button onClick={() => { setViewMode('tickets'); setOpenTicketId(null); }} className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'tickets' ? 'bg-slate-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}>工单</button>
+             <button onClick={() => setViewMode('history')} className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'history' ? 'bg-slate-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}>历史记录</button>
+             <button onClick={() => setViewMode('stats')} className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${viewMode === 'stats' ? 'bg-slate-700 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}>统计</button>
+             <button onClick={() => setShowSettings(true)} title={`模型设置（当前：${providerSettings.model}）`} className="px-2 py-1.5 rounded-md text-gray-400 hover:text-gray-200 transition-all"><IconSettings className="w-4 h-4" /></button>
+             <button onClick={() => setShowProfiles(true)} title={`提示词方案（当前：${activeProfile.name}）`} className="px-2 py-1.5 rounded-md text-gray-400 hover:text-gray-200 transition-all"><IconSliders className="w-4 h-4" /></button>
           </div>
         </div>
       </header>
 
-      <main className="flex-grow container mx-auto px-4 py-8 max-w-4xl">
-        {viewMode === 'diagnose' ? (
+      {showCamera && <CameraCapture onCapture={addImage} onClose={() => setShowCamera(false)} />}
+      {annotatingId && images.some(img => img.id === annotatingId) && (
+        <ImageAnnotator
+          image={images.find(img => img.id === annotatingId)!}
+          onSave={saveAnnotation}
+          onCancel={() => setAnnotatingId(null)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel settings={providerSettings} sources={sourcePreferences} onSave={updateProviderSettings} onClose={() => setShowSettings(false)} />
+      )}
+      {showProfiles && (
+        <PromptProfilesPanel profiles={promptProfiles} onSave={updatePromptProfiles} onClose={() => setShowProfiles(false)} />
+      )}
+
+      <main className={`flex-grow container mx-auto px-4 py-8 ${appState === AppState.COMPARING ? 'max-w-7xl' : 'max-w-4xl'}`}>
+        {viewMode === 'diagnose' && (
           <div className="animate-fade-in space-y-8">
             {(appState === AppState.IDLE || appState === AppState.ERROR) && (
               <div className="space-y-8">
@@ -195,6 +760,12 @@ const App: React.FC = () => {
                   <p className="text-gray-400">描述故障或上传照片，AI 将结合技术文档为您提供维修建议。</p>
                 </div>
                 <div className="bg-slate-800/50 border border-gray-700 rounded-3xl p-6 md:p-8 shadow-xl">
+                  {diagnosisTicket && (
+                    <div className="mb-6 p-3 bg-blue-900/20 border border-blue-800 rounded-xl text-blue-200 text-sm flex justify-between items-center gap-3">
+                      <span className="truncate">诊断结果将归入工单：{diagnosisTicket.model}{diagnosisTicket.serialNumber ? `（SN ${diagnosisTicket.serialNumber}）` : ''}</span>
+                      <button onClick={() => setDiagnosisTicketId(null)} title="不归入工单" className="text-blue-300 hover:text-white flex-shrink-0"><IconX className="w-4 h-4" /></button>
+                    </div>
+                  )}
                   <div className="mb-6">
                     <label className="block text-sm font-medium text-gray-400 mb-2">描述故障现象</label>
                     <textarea 
@@ -205,32 +776,104 @@ const App: React.FC = () => {
                     />
                   </div>
                   <div className="mb-8">
-                    <label className="block text-sm font-medium text-gray-400 mb-2">故障部位照片</label>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">
+                      故障部位照片
+                      {!capabilities.images && <span className="ml-2 text-[10px] text-yellow-500">当前模型不支持图片输入，照片将不会发送</span>}
+                    </label>
                     <div className="flex flex-wrap gap-3">
                       <div onClick={() => imageInputRef.current?.click()} className="w-24 h-24 rounded-2xl border-2 border-dashed border-gray-600 flex flex-col items-center justify-center cursor-pointer hover:border-circuit-teal text-gray-500 hover:text-circuit-teal transition-all">
-                        <IconCamera className="w-6 h-6 mb-1" /><span className="text-[10px]">点击上传</span>
+                        <IconUpload className="w-6 h-6 mb-1" /><span className="text-[10px]">点击上传</span>
                         <input type="file" ref={imageInputRef} accept="image/*" multiple className="hidden" onChange={handleImageSelect} />
                       </div>
+                      <div onClick={() => setShowCamera(true)} className="w-24 h-24 rounded-2xl border-2 border-dashed border-gray-600 flex flex-col items-center justify-center cursor-pointer hover:border-circuit-teal text-gray-500 hover:text-circuit-teal transition-all">
+                        <IconCamera className="w-6 h-6 mb-1" /><span className="text-[10px]">拍照</span>
+                      </div>
                       {images.map((img) => (
                         <div key={img.id} className="relative w-24 h-24 rounded-2xl overflow-hidden border border-gray-700 group">
                           <img src={`data:${img.mimeType};base64,${img.data}`} alt="fault" className="w-full h-full object-cover" />
+                          <button onClick={() => setAnnotatingId(img.id)} title="标注" className="absolute bottom-1 right-1 bg-black/60 text-white rounded-full p-1 opacity-0 group-hover:opacity-100"><IconPen className="w-3 h-3" /></button>
                           <button onClick={() => removeImage(img.id)} className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-1 opacity-0 group-hover:opacity-100"><IconX className="w-3 h-3" /></button>
                         </div>
                       ))}
                     </div>
+                    {images.length > 0 && (
+                      <p className="mt-2 text-[10px] text-gray-500">{images.length}/{MAX_IMAGES} 张 · 约 {(payloadSize(images) * 0.75 / 1024 / 1024).toFixed(1)}MB，超出上限时发送前会自动压缩</p>
+                    )}
                   </div>
-                  {errorMsg && (
-                    <div className="mb-6 p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-sm flex items-center gap-3">
-                      <IconAlert className="w-5 h-5 flex-shrink-0" />
-                      <span>{errorMsg}</span>
+                  <div className="mb-8">
+                    <label className="block text-sm font-medium text-gray-400 mb-2">技术文档（电路图、维修手册）</label>
+                    <div className="flex flex-wrap gap-2 items-center">
+                      <button onClick={() => docInputRef.current?.click()} disabled={isReadingDocs} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-dashed border-gray-600 text-gray-400 hover:text-circuit-teal hover:border-circuit-teal disabled:opacity-40 transition-all">
+                        <IconFileText className="w-3 h-3" /> {isReadingDocs ? '正在提取文字...' : '附加 PDF/文本'}
+                      </button>
+                      <input type="file" ref={docInputRef} accept={DOCUMENT_ACCEPT} multiple className="hidden" onChange={handleDocumentSelect} />
+                      {attachedDocs.map(doc => (
+                        <span key={doc.id} className="flex items-center gap-1 text-xs bg-slate-700 text-gray-200 px-2 py-1 rounded-lg">
+                          {doc.name}<span className="text-gray-500">· {doc.pages.length} 页</span>
+                          <button onClick={() => setAttachedDocs(prev => prev.filter(d => d.id !== doc.id))} className="text-gray-400 hover:text-white"><IconX className="w-3 h-3" /></button>
+                        </span>
+                      ))}
+                      {matchedDocs.map(doc => (
+                        <span key={doc.id} title="按设备型号自动附带" className="text-xs bg-blue-900/30 text-blue-300 border border-blue-800 px-2 py-1 rounded-lg">{doc.model} · {doc.name}</span>
+                      ))}
                     </div>
-                  )}
+                    <p className="mt-2 text-[10px] text-gray-500">文字在本机提取，仅发送与故障描述最相关的页；描述中出现案例库已登记的型号时自动附带对应文档。</p>
+                  </div>
+                  <div className="mb-6 flex items-center gap-2 text-xs text-gray-400">
+                    <span className="flex-shrink-0">提示词方案</span>
+                    <select value={activeProfile.id} onChange={(e) => selectProfile(e.target.value)} className="flex-grow bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal">
+                      {promptProfiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.productLine ? `（${p.productLine}）` : ''}</option>)}
+                    </select>
+                    <button onClick={() => setShowProfiles(true)} className="flex-shrink-0 text-gray-500 hover:text-circuit-teal transition-colors">管理</button>
+                  </div>
+                  {error && <ErrorNotice error={error} className="mb-6" />}
                   <button onClick={() => handleSubmit()} className="w-full py-4 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-2xl font-bold text-lg shadow-lg active:scale-95 transition-all">获取分析建议</button>
+                  <button onClick={openComparisonSetup} className="w-full mt-3 py-2 text-sm text-gray-400 hover:text-circuit-teal transition-colors">多配置对比：同时用几个模型或设置分析，并排查看</button>
+                  {libraryItems.length > 0 && (
+                    <button onClick={handleOfflineSubmit} className="w-full mt-3 py-2 text-sm text-gray-400 hover:text-circuit-teal transition-colors">无网络？仅从案例库检索相似方案</button>
+                  )}
                 </div>
               </div>
             )}
 
-            {appState === AppState.ANALYZING && (
+            {comparisonSetup && (appState === AppState.IDLE || appState === AppState.ERROR) && (
+              <ComparisonSetup initial={comparisonSetup} settings={providerSettings} onRun={startComparison} onCancel={() => setComparisonSetup(null)} />
+            )}
+
+            {appState === AppState.COMPARING && !comparison && (
+              <div className="py-20 flex flex-col items-center">
+                <div className="w-12 h-12 border-4 border-gray-800 border-t-circuit-teal rounded-full animate-spin mb-4"></div>
+                <p className="text-gray-400">正在准备照片并检索案例库...</p>
+              </div>
+            )}
+
+            {appState === AppState.COMPARING && comparison && (
+              <ComparisonView
+                candidates={comparison.candidates}
+                running={comparison.candidates.some(c => c.status === 'running')}
+                onKeep={keepComparison}
+                onStop={stopAnalysis}
+                onClose={closeComparison}
+              />
+            )}
+
+            {appState === AppState.ANALYZING && streamingText && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                    <span className="p-2 bg-circuit-teal/10 text-circuit-teal rounded-lg border border-circuit-teal/20 animate-pulse"><IconWrench className="w-5 h-5" /></span>
+                    正在生成维修方案...
+                  </h2>
+                  <button onClick={stopAnalysis} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors"><IconStop className="w-4 h-4" /> 停止</button>
+                </div>
+                <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6 md:p-8 shadow-2xl relative overflow-hidden">
+                  <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-circuit-teal to-blue-500 animate-pulse"></div>
+                  <MarkdownRenderer content={streamingText} />
+                </div>
+              </div>
+            )}
+
+            {appState === AppState.ANALYZING && !streamingText && (
               <div className="py-20 flex flex-col items-center">
                 <div className="relative w-24 h-24 mb-6">
                   <div className="absolute inset-0 border-4 border-gray-800 rounded-full"></div>
@@ -239,6 +882,7 @@ const App: React.FC = () => {
                 </div>
                 <h3 className="text-xl font-bold text-white mb-2">分析中...</h3>
                 <p className="text-gray-400">正在检索技术文档并核对案例库</p>
+                <button onClick={stopAnalysis} className="mt-6 flex items-center gap-1 px-4 py-2 rounded-xl border border-gray-700 text-sm text-gray-400 hover:text-red-400 hover:border-red-800 transition-all"><IconStop className="w-4 h-4" /> 停止</button>
               </div>
             )}
 
@@ -247,51 +891,189 @@ const App: React.FC = () => {
                 <div className="flex justify-between items-center">
                   <h2 className="text-2xl font-bold text-white flex items-center gap-2">
                     <span className="p-2 bg-circuit-teal/10 text-circuit-teal rounded-lg border border-circuit-teal/20"><IconWrench className="w-5 h-5" /></span>
-                    维修分析结果
+                    {isLibraryView ? '案例库存档' : '维修分析结果'}
+                    {isLibraryView && <span className="text-[10px] font-medium bg-yellow-900/40 text-yellow-300 px-2 py-0.5 rounded border border-yellow-800">仅存档 · 非 AI 分析</span>}
+                    {!isLibraryView && activeRecord?.profile && <span className="text-[10px] font-medium bg-slate-700 text-gray-300 px-2 py-0.5 rounded border border-gray-600">{activeRecord.profile.name}</span>}
+                    {!isLibraryView && activeRecord?.comparison && (
+                      <span title={`对比配置：${activeRecord.comparison.candidates.join('、')}`} className="text-[10px] font-medium bg-teal-900/40 text-teal-200 px-2 py-0.5 rounded border border-teal-800">
+                        {activeRecord.comparison.kept.length > 1 ? `合并 ${activeRecord.comparison.kept.length} 个方案` : `${activeRecord.comparison.candidates.length} 配置对比选用`}
+                      </span>
+                    )}
                   </h2>
-                  <button onClick={resetApp} className="text-sm text-gray-500 hover:text-white transition-colors">新诊断</button>
+                  <div className="flex items-center gap-4">
+                    {activeRecordTicket && (
+                      <button onClick={() => backToTicket(activeRecordTicket.id)} className="text-sm text-gray-400 hover:text-circuit-teal transition-colors">返回工单</button>
+                    )}
+                    <button onClick={() => setIsExportingWorkOrder(true)} className="text-sm text-gray-400 hover:text-circuit-teal transition-colors">导出工单</button>
+                    {activeRecord && (
+                      <button onClick={() => setIsSavingToLibrary(true)} className="text-sm text-gray-400 hover:text-circuit-teal transition-colors">存入案例库</button>
+                    )}
+                    {activeRecord && (
+                      <button onClick={toggleWorkMode} className={`text-sm px-3 py-1 rounded-lg border transition-all ${workMode ? 'border-circuit-teal text-circuit-teal' : 'border-gray-700 text-gray-400 hover:text-white'}`}>{workMode ? '查看方案' : '工作模式'}</button>
+                    )}
+                    <button onClick={resetApp} className="text-sm text-gray-500 hover:text-white transition-colors">新诊断</button>
+                  </div>
                 </div>
+                {analysisResult.notices && analysisResult.notices.length > 0 && (
+                  <div className="p-3 bg-yellow-900/20 border border-yellow-800 rounded-xl text-yellow-200 text-xs space-y-1">
+                    {analysisResult.notices.map((n, i) => <p key={i} className="flex items-center gap-2"><IconAlert className="w-4 h-4 flex-shrink-0" />{n}</p>)}
+                  </div>
+                )}
                 <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6 md:p-8 shadow-2xl relative overflow-hidden">
                   <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-circuit-teal to-blue-500"></div>
-                  <MarkdownRenderer content={analysisResult.rawText} />
+                  {workMode && activeRecord ? (
+                    <WorkModeChecklist
+                      steps={activeRecord.checklist || []}
+                      onChange={update => updateChecklist(activeRecord.id, update)}
+                      onError={setErrorMsg}
+                      onRequestRevision={requestRevisedDiagnosis}
+                    />
+                  ) : analysisResult.report ? (
+                    <>
+                      <RepairReportView key={activeRecord?.id} report={analysisResult.report} />
+                      <button onClick={() => setShowRawText(v => !v)} className="mt-8 text-xs text-gray-500 hover:text-circuit-teal transition-colors">{showRawText ? '收起完整方案' : '查看完整方案'}</button>
+                      {showRawText && <div className="mt-4 pt-4 border-t border-gray-700"><MarkdownRenderer content={analysisResult.rawText} sources={analysisResult.sources} /></div>}
+                    </>
+                  ) : (
+                    <MarkdownRenderer content={analysisResult.rawText} sources={analysisResult.sources} />
+                  )}
                 </div>
-                {analysisResult.sources.length > 0 && (
+                {isSavingToLibrary && activeRecord && (
+                  <SaveToLibraryForm record={activeRecord} ticketModel={activeRecordTicket?.model} categories={libraryCategories} onSave={addToLibrary} onCancel={() => setIsSavingToLibrary(false)} />
+                )}
+                {isExportingWorkOrder && (
+                  <WorkOrderForm
+                    key={activeRecord?.id}
+                    description={activeRecord?.description ?? description}
+                    images={activeRecord?.images ?? []}
+                    result={analysisResult}
+                    initial={activeRecord?.workOrder ?? (activeRecordTicket ? workOrderInfoFromTicket(activeRecordTicket) : undefined)}
+                    onExport={(info) => activeRecord && updateRecord({ ...activeRecord, workOrder: info })}
+                    onCancel={() => setIsExportingWorkOrder(false)}
+                  />
+                )}
+                {analysisResult.references && analysisResult.references.length > 0 && (
                   <div className="p-4 bg-slate-900/50 rounded-2xl border border-gray-800">
-                    <h4 className="text-xs font-bold text-gray-500 uppercase mb-3 flex items-center gap-2"><IconLink className="w-3 h-3" /> 参考资源</h4>
+                    <h4 className="text-xs font-bold text-gray-500 uppercase mb-3 flex items-center gap-2"><IconFileText className="w-3 h-3" /> 参考案例</h4>
                     <div className="grid gap-2 sm:grid-cols-2">
-                      {analysisResult.sources.map((s, i) => s.web && (
-                        <a key={i} href={s.web.uri} target="_blank" rel="noreferrer" className="text-sm text-circuit-teal hover:underline truncate bg-slate-800 p-2 rounded-lg border border-gray-700">{s.web.title}</a>
+                      {analysisResult.references.map((ref, i) => (
+                        <div key={ref.item.id} onClick={() => selectLibraryItem(ref.item)} className="text-sm bg-slate-800 p-2 rounded-lg border border-gray-700 hover:border-circuit-teal cursor-pointer transition-all">
+                          <div className="flex justify-between items-center gap-2">
+                            <span className="text-white truncate">【案例 {i + 1}】{ref.item.name}</span>
+                            <span className="text-[10px] text-circuit-teal flex-shrink-0">{Math.round(ref.similarity * 100)}%</span>
+                          </div>
+                          <p className="text-gray-500 text-xs truncate">{ref.item.description}</p>
+                        </div>
                       ))}
                     </div>
                   </div>
                 )}
+                {analysisResult.documents && analysisResult.documents.length > 0 && (
+                  <div className="p-4 bg-slate-900/50 rounded-2xl border border-gray-800">
+                    <h4 className="text-xs font-bold text-gray-500 uppercase mb-3 flex items-center gap-2"><IconFileText className="w-3 h-3" /> 引用文档</h4>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {analysisResult.documents.map((doc, i) => (
+                        <details key={i} className="text-sm bg-slate-800 p-2 rounded-lg border border-gray-700">
+                          <summary className="text-white cursor-pointer truncate">〔{citationLabel(doc)}〕</summary>
+                          <p className="mt-2 text-xs text-gray-400 whitespace-pre-wrap max-h-48 overflow-y-auto">{doc.text}</p>
+                        </details>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <SourceList sources={analysisResult.sources} searchQueries={analysisResult.searchQueries} />
+                {activeRecord && (
+                  <div className="pt-4 border-t border-gray-800 space-y-4">
+                    {error && <ErrorNotice error={error} />}
+                    <FollowUpThread
+                      turns={activeRecord.followUps || []}
+                      pendingQuestion={pendingQuestion}
+                      streamingText={followUpText}
+                      onAsk={handleFollowUp}
+                      onStop={stopAnalysis}
+                    />
+                  </div>
+                )}
               </div>
             )}
           </div>
-        ) : (
+        )}
+
+        {viewMode === 'library' && (
           <div className="animate-fade-in space-y-6">
             <div className="bg-slate-800/50 border border-gray-700 rounded-3xl p-8 text-center">
               <h3 className="text-xl font-bold text-white mb-4">导入案例库</h3>
-              <p className="text-gray-400 mb-8 text-sm">导入维修记录（Excel/JSON），以便在诊断时获得更精准的建议。</p>
+              <p className="text-gray-400 mb-8 text-sm">导入维修记录（Excel/CSV/JSON），以便在诊断时获得更精准的建议。</p>
               <div onClick={() => fileInputRef.current?.click()} className="border-2 border-dashed border-gray-600 rounded-2xl p-12 hover:border-circuit-teal hover:bg-slate-800/50 cursor-pointer transition-all group">
                 <IconFileText className="w-12 h-12 text-gray-600 group-hover:text-circuit-teal mx-auto mb-4" />
-                <p className="font-bold">点击上传 Excel/JSON</p>
-                <input type="file" ref={fileInputRef} accept=".json,.xlsx,.xls" onChange={handleFileUpload} className="hidden" />
+                <p className="font-bold">点击上传 Excel/CSV/JSON</p>
+                <input type="file" ref={fileInputRef} accept=".json,.xlsx,.xls,.csv" onChange={handleFileUpload} className="hidden" />
               </div>
             </div>
+            {error && <ErrorNotice error={error} />}
+            {pendingImport && (
+              <ImportWizard
+                key={pendingImport.fileName}
+                fileName={pendingImport.fileName}
+                sheets={pendingImport.sheets}
+                existing={libraryItems}
+                onConfirm={confirmImport}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
             {libraryItems.length > 0 && (
-              <div className="grid gap-4 sm:grid-cols-2">
-                {libraryItems.map(item => (
-                  <div key={item.id} onClick={() => selectLibraryItem(item)} className="bg-slate-800 border border-gray-700 p-5 rounded-2xl hover:border-circuit-teal cursor-pointer group transition-all">
-                    <div className="flex justify-between items-start mb-2">
-                      <h4 className="text-white font-bold group-hover:text-circuit-teal transition-colors">{item.name}</h4>
-                      {item.analysis && <span className="text-[10px] bg-green-900/40 text-green-400 px-2 py-0.5 rounded border border-green-800">有方案</span>}
-                    </div>
-                    <p className="text-gray-500 text-xs line-clamp-2">{item.description}</p>
-                  </div>
-                ))}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => exportLibraryToXlsx(libraryItems)} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-gray-700 text-gray-400 hover:text-circuit-teal hover:border-circuit-teal transition-all"><IconUpload className="w-3 h-3" /> 导出 Excel</button>
+                <button onClick={() => exportLibraryToJson(libraryItems)} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-gray-700 text-gray-400 hover:text-circuit-teal hover:border-circuit-teal transition-all"><IconUpload className="w-3 h-3" /> 导出 JSON</button>
               </div>
             )}
+            <LibraryView
+              items={libraryItems}
+              onSelect={selectLibraryItem}
+              onSave={upsertLibraryItem}
+              onDelete={removeLibraryItem}
+            />
+            <DocumentLibrary documents={documents} onAdd={registerDocument} onDelete={removeDocument} />
+          </div>
+        )}
+
+        {viewMode === 'tickets' && (
+          <div className="animate-fade-in space-y-6">
+            {openTicket ? (
+              <TicketDetail
+                key={openTicket.id}
+                ticket={openTicket}
+                records={history.filter(r => openTicket.diagnosisIds.includes(r.id))}
+                onChange={updateTicket}
+                onDiagnose={startTicketDiagnosis}
+                onOpenRecord={openHistoryRecord}
+                onDelete={removeTicket}
+                onBack={() => setOpenTicketId(null)}
+              />
+            ) : (
+              <TicketsView
+                tickets={tickets}
+                onCreate={(ticket) => { updateTicket(ticket); setOpenTicketId(ticket.id); }}
+                onOpen={(ticket) => setOpenTicketId(ticket.id)}
+              />
+            )}
+          </div>
+        )}
+
+        {viewMode === 'history' && (
+          <div className="animate-fade-in space-y-6">
+            <HistoryView
+              records={history}
+              onOpen={openHistoryRecord}
+              onDelete={removeHistoryRecord}
+              onRerun={rerunHistoryRecord}
+            />
+          </div>
+        )}
+
+        {viewMode === 'stats' && (
+          <div className="animate-fade-in space-y-6">
+            <AnalyticsView libraryItems={libraryItems} history={history} tickets={tickets} />
           </div>
         )}
       </main>
@@ -0,0 +1,57 @@
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import { createApiServer } from "./apiServer";
+import { createStubProvider } from "./stubProvider";
+import { createDiagnosisEngine } from "../services/diagnosisEngine";
+
+// 用测试桩模型启动本机接口，验证路由、参数校验与访问令牌
+let server: Server | undefined;
+
+const start = async (token?: string) => {
+  server = createApiServer(createDiagnosisEngine({ provider: createStubProvider() }), { token });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const postJson = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+describe("createApiServer", () => {
+  it("GET /health 返回当前模型与案例库条数", async () => {
+    const res = await fetch(`${await start()}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, provider: "openai", model: "stub", libraryItems: 0 });
+  });
+
+  it("POST /diagnose 返回诊断结论与结构化报告", async () => {
+    const res = await postJson(`${await start()}/diagnose`, { description: "开机无输出", model: "PS-300" });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.diagnosis).toContain("开机无输出");
+    expect(body.report.suspectedComponents[0].designator).toBe("F1");
+    expect(body.markdown).not.toContain("```json");
+  });
+
+  it("缺少故障描述或方案不存在时返回 400", async () => {
+    const base = await start();
+    const missing = await postJson(`${base}/diagnose`, { model: "PS-300" });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error.category).toBe("bad_input");
+    const unknown = await postJson(`${base}/diagnose`, { description: "开机无输出", profileId: "nope" });
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error.message).toContain("nope");
+  });
+
+  it("设置令牌后缺少或错误的令牌返回 401", async () => {
+    const base = await start("secret");
+    expect((await fetch(`${base}/health`)).status).toBe(401);
+    expect((await fetch(`${base}/health`, { headers: { Authorization: "Bearer wrong" } })).status).toBe(401);
+    expect((await fetch(`${base}/health`, { headers: { Authorization: "Bearer secret" } })).status).toBe(200);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { RepairAnalysis } from "../types";
+import { DiagnosisEngine, DiagnosisInput } from "../services/diagnosisEngine";
+import { createLimiter, DEFAULT_CONCURRENCY } from "../services/batchService";
+import { ErrorCategory, classifyError } from "../services/errorService";
+
+// 本机 HTTP 接口，供工单系统调用：
+//   GET  /health    服务状态、当前模型与案例库条数
+//   GET  /profiles  可用的提示词方案
+//   POST /diagnose  {description, model?, profileId?, images?: [{data, mimeType}]} → 诊断结果
+// 诊断引擎由调用方传入，联调时可换成测试桩模型。
+export interface ApiServerOptions {
+  /** 设置后要求请求头 Authorization: Bearer <token> */
+  token?: string;
+  /** 同时进行的诊断数，超出的请求排队等待 */
+  concurrency?: number;
+  /** 请求体上限（字节），默认 20MB，足够附带几张压缩后的照片 */
+  maxBodyBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** 模型错误对应的 HTTP 状态码，其余归为 502 */
+const STATUS_BY_CATEGORY: Partial<Record<ErrorCategory, number>> = {
+  bad_input: 400,
+  safety: 422,
+  rate_limit: 429,
+  timeout: 504,
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly category: string = "bad_input") {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, limit: number) => new Promise<any>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      reject(new HttpError(413, `请求体超过 ${Math.round(limit / 1024 / 1024)}MB 上限`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}"));
+    } catch {
+      reject(new HttpError(400, "请求体不是合法的 JSON"));
+    }
+  });
+  req.on("error", reject);
+});
+
+/** 校验并整理请求参数 */
+export const parseDiagnosisInput = (body: any): DiagnosisInput => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) throw new HttpError(400, "请求体须为 JSON 对象");
+  const description = typeof body.description === "string" ? body.description.trim() : "";
+  if (!description) throw new HttpError(400, "缺少故障描述 description");
+  const images = body.images === undefined ? [] : body.images;
+  if (!Array.isArray(images) || images.some((img: any) => typeof img?.data !== "string" || typeof img?.mimeType !== "string")) {
+    throw new HttpError(400, "images 须为 [{data: base64, mimeType}] 数组");
+  }
+  return {
+    description,
+    model: typeof body.model === "string" ? body.model : undefined,
+    profileId: typeof body.profileId === "string" ? body.profileId : undefined,
+    images: images.length > 0 ? images : undefined,
+  };
+};
+
+/** 返回给工单系统的结果：案例库引用只保留摘要字段 */
+const toResponse = (analysis: RepairAnalysis) => ({
+  diagnosis: analysis.diagnosis,
+  markdown: analysis.rawText,
+  report: analysis.report,
+  sources: analysis.sources,
+  references: (analysis.references || []).map(r => ({
+    id: r.item.id,
+    name: r.item.name,
+    model: r.item.model,
+    similarity: Number(r.similarity.toFixed(3)),
+  })),
+  notices: analysis.notices,
+});
+
+export const createApiServer = (engine: DiagnosisEngine, options: ApiServerOptions = {}): Server => {
+  const limit = createLimiter(options.concurrency || DEFAULT_CONCURRENCY);
+  const maxBody = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      throw new HttpError(401, "缺少或错误的访问令牌", "auth");
+    }
+
+    if (req.method === "GET" && path === "/health") {
+      sendJson(res, 200, { ok: true, provider: engine.provider.id, model: engine.provider.model, libraryItems: engine.libraryCount });
+      return;
+    }
+    if (req.method === "GET" && path === "/profiles") {
+      sendJson(res, 200, engine.profiles.map(p => ({ id: p.id, name: p.name, productLine: p.productLine, language: p.language })));
+      return;
+    }
+    if (path === "/diagnose") {
+      if (req.method !== "POST") throw new HttpError(405, "请使用 POST");
+      const input = parseDiagnosisInput(await readJsonBody(req, maxBody));
+      if (input.profileId && !engine.profiles.some(p => p.id === input.profileId)) {
+        throw new HttpError(400, `找不到提示词方案：${input.profileId}`);
+      }
+      const analysis = await limit(() => engine.diagnose(input));
+      sendJson(res, 200, toResponse(analysis));
+      return;
+    }
+    throw new HttpError(404, `未知的接口：${req.method} ${path}`, "not_found");
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(err => {
+      if (res.headersSent) return res.end();
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: { category: err.category, message: err.message } });
+        return;
+      }
+      const info = classifyError(err);
+      sendJson(res, STATUS_BY_CATEGORY[info.category] || 502, {
+        error: { category: info.category, message: info.message, action: info.action, detail: info.detail },
+      });
+    });
+  });
+};
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { appendFileSync, existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import * as XLSX from "xlsx";
+import {
+  BatchColumns,
+  BatchJob,
+  BatchResult,
+  RESULT_HEADERS,
+  buildBatchReport,
+  guessBatchColumns,
+  jobsFromSheet,
+  parseProgress,
+  progressLine,
+  resultToColumns,
+  runBatch,
+} from "../services/batchService";
+import { EngineArgs, engineFromArgs, readSheets, readWorkbook } from "./config";
+
+// 批量诊断命令：读取故障清单，逐行诊断后把结果写回为新列（xlsx）或 JSON 报告。
+// 每完成一行就追加到进度文件，中断或部分失败后再次运行同一命令即从断点继续。
+export interface BatchArgs extends EngineArgs {
+  input: string;
+  output?: string;
+  format?: string;
+  sheet?: string;
+  descriptionColumn?: string;
+  modelColumn?: string;
+  idColumn?: string;
+  concurrency?: number;
+  restart?: boolean;
+}
+
+const defaultOutput = (input: string, format: "xlsx" | "json") =>
+  join(dirname(input), `${basename(input, extname(input))}.诊断结果.${format}`);
+
+/** 在原工作表右侧追加结果列；输出文件再次作为输入时覆盖已有的结果列 */
+const writeWorkbook = (args: BatchArgs, sheetName: string, jobs: BatchJob[], results: Map<string, BatchResult>, output: string) => {
+  const workbook = readWorkbook(args.input);
+  const sheet = workbook.Sheets[sheetName];
+  const range = XLSX.utils.decode_range(sheet["!ref"] || "A1");
+  let column = range.e.c + 1;
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = sheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    if (cell && String(cell.v).trim() === RESULT_HEADERS[0]) {
+      column = c;
+      break;
+    }
+  }
+  XLSX.utils.sheet_add_aoa(sheet, [RESULT_HEADERS], { origin: { r: range.s.r, c: column } });
+  jobs.forEach(job => {
+    XLSX.utils.sheet_add_aoa(sheet, [resultToColumns(results.get(job.key))], { origin: { r: job.rowNumber - 1, c: column } });
+  });
+  writeFileSync(output, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+};
+
+export const runBatchCommand = async (args: BatchArgs): Promise<number> => {
+  const isJson = extname(args.input).toLowerCase() === ".json";
+  const format = args.format === "json" || isJson ? "json" : "xlsx";
+  if (args.format && args.format !== "json" && args.format !== "xlsx") throw new Error(`未知的输出格式：${args.format}（可选 xlsx、json）`);
+  if (format === "xlsx" && isJson) throw new Error("JSON 输入只能输出 JSON 报告");
+  const output = args.output || defaultOutput(args.input, format);
+  const progressPath = `${output}.progress.jsonl`;
+
+  const sheets = readSheets(args.input);
+  const sheet = args.sheet ? sheets.find(s => s.name === args.sheet) : sheets[0];
+  if (!sheet) throw new Error(`找不到工作表：${args.sheet}`);
+  const overrides: Partial<BatchColumns> = { description: args.descriptionColumn, model: args.modelColumn, id: args.idColumn };
+  const columns = guessBatchColumns(sheet.headers, overrides);
+  if (!columns) throw new Error(`未找到故障描述列，请用 --description-column 指定（现有列：${sheet.headers.join("、")}）`);
+  const { jobs, skipped } = jobsFromSheet(sheet, columns);
+
+  const engine = engineFromArgs(args);
+  if (args.restart) rmSync(progressPath, { force: true });
+  const results = existsSync(progressPath) ? parseProgress(readFileSync(progressPath, "utf-8")) : new Map<string, BatchResult>();
+  const pending = jobs.filter(job => !results.has(job.key));
+  // 本次运行中失败的行，写出时附带失败原因；续跑时这些行会重新诊断
+  const failures = new Map<string, BatchResult>();
+
+  console.log(`共 ${jobs.length} 行待诊断（描述列“${columns.description}”${columns.model ? `，型号列“${columns.model}”` : ""}），模型 ${engine.provider.model}，案例库 ${engine.libraryCount} 条`);
+  if (skipped.length > 0) console.log(`跳过 ${skipped.length} 行空描述：第 ${skipped.join("、")} 行`);
+  if (results.size > 0) console.log(`从进度文件恢复 ${results.size} 行，剩余 ${pending.length} 行`);
+
+  // Ctrl+C：不再启动新的行，等进行中的行完成后照常写出结果
+  const controller = new AbortController();
+  const interrupt = () => {
+    console.log("\n收到中断信号，等待进行中的行完成后保存进度……");
+    controller.abort();
+  };
+  process.once("SIGINT", interrupt);
+
+  try {
+    await runBatch(pending, job => engine.diagnose({ description: job.description, model: job.model }), {
+      concurrency: args.concurrency,
+      signal: controller.signal,
+      onResult: (result, finished) => {
+        appendFileSync(progressPath, `${progressLine(result)}\n`);
+        if (result.status === "done") results.set(result.key, result);
+        else failures.set(result.key, result);
+        const label = `[${finished}/${pending.length}] 第 ${result.rowNumber} 行（${result.key}）`;
+        console.log(result.status === "done" ? `${label} 完成` : `${label} 失败：${result.error?.message}`);
+      },
+    });
+  } finally {
+    process.off("SIGINT", interrupt);
+  }
+
+  const outcome = new Map([...results, ...failures]);
+
+  if (format === "json") {
+    const report = buildBatchReport(jobs, outcome, { provider: engine.provider.id, model: engine.provider.model });
+    writeFileSync(output, JSON.stringify(report, null, 2));
+  } else {
+    writeWorkbook(args, sheet.name, jobs, outcome, output);
+  }
+
+  const succeeded = jobs.filter(job => results.has(job.key)).length;
+  const remaining = jobs.length - succeeded;
+  console.log(`已写出 ${output}：成功 ${succeeded} 行${remaining > 0 ? `，未完成 ${remaining} 行` : ""}`);
+  if (remaining === 0) {
+    rmSync(progressPath, { force: true });
+    return 0;
+  }
+  console.log(`进度保存在 ${progressPath}，再次运行同一命令即可只诊断未完成的行`);
+  return 1;
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import * as XLSX from "xlsx";
+import { LibraryItem, PromptProfile, ProviderId, ProviderSettings } from "../types";
+import { DEFAULT_MODELS, LLMProvider, createProvider } from "../services/llmProvider";
+import { ImportSheet, buildImportPreview, guessColumnMapping, sheetFromJson, sheetsFromWorkbook } from "../services/libraryService";
+import { DEFAULT_PROFILES, importProfilesFromJson } from "../services/promptProfileService";
+import { parseDomainList } from "../services/groundingService";
+import { DiagnosisEngine, createDiagnosisEngine } from "../services/diagnosisEngine";
+import { createStubProvider } from "./stubProvider";
+
+// 命令行与 HTTP 接口共用的启动参数：模型后端、案例库文件、提示词方案文件。
+// 案例库与提示词方案使用网页端“导出”得到的文件，格式与导入时相同。
+export interface EngineArgs {
+  provider?: string;
+  model?: string;
+  endpoint?: string;
+  apiKey?: string;
+  vision?: boolean;
+  library?: string;
+  profiles?: string;
+  profile?: string;
+  preferDomains?: string;
+  blockDomains?: string;
+}
+
+/** 读取工作簿；CSV 按 UTF-8 文本解析，否则中文会被当作本地代码页解码成乱码 */
+export const readWorkbook = (path: string): XLSX.WorkBook =>
+  extname(path).toLowerCase() === ".csv"
+    ? XLSX.read(readFileSync(path, "utf-8").replace(/^\uFEFF/, ""), { type: "string" })
+    : XLSX.read(readFileSync(path), { type: "buffer" });
+
+/** 读取 .xlsx/.xls/.csv 或 JSON 数组为表格 */
+export const readSheets = (path: string): ImportSheet[] => {
+  if (extname(path).toLowerCase() === ".json") {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    const rows = Array.isArray(data) ? data : Array.isArray(data?.rows) ? data.rows : null;
+    if (!rows) throw new Error(`${path}：JSON 内容须为对象数组`);
+    return [sheetFromJson(rows)];
+  }
+  return sheetsFromWorkbook(readWorkbook(path));
+};
+
+/** 按网页端导入的规则读取案例库，校验失败与重复的行被跳过 */
+export const loadLibrary = (path: string): LibraryItem[] => {
+  const sheets = readSheets(path);
+  const mapping = guessColumnMapping(Array.from(new Set(sheets.flatMap(s => s.headers))));
+  if (!mapping.description) throw new Error(`${path}：未找到故障现象列`);
+  return buildImportPreview(sheets, mapping)
+    .filter(row => row.status === "ok" && row.item)
+    .map(row => row.item!);
+};
+
+export const loadProfiles = (path: string): PromptProfile[] => importProfilesFromJson(readFileSync(path, "utf-8"), DEFAULT_PROFILES);
+
+export const providerFromArgs = (args: EngineArgs): LLMProvider => {
+  if (args.provider === "stub") return createStubProvider();
+  if (args.provider && args.provider !== "gemini" && args.provider !== "openai") {
+    throw new Error(`未知的模型后端：${args.provider}（可选 gemini、openai、stub）`);
+  }
+  const provider = (args.provider || "gemini") as ProviderId;
+  // 运行时读取环境变量：命令行构建不注入 Key
+  const apiKey = args.apiKey || (provider === "gemini" ? process.env.GEMINI_API_KEY : undefined);
+  if (provider === "gemini" && !apiKey) throw new Error("缺少 Gemini API Key：请用 --api-key 指定或设置环境变量 GEMINI_API_KEY");
+  const settings: ProviderSettings = {
+    provider,
+    model: args.model || DEFAULT_MODELS[provider],
+    endpoint: args.endpoint,
+    apiKey,
+    supportsImages: args.vision,
+  };
+  return createProvider(settings);
+};
+
+export const engineFromArgs = (args: EngineArgs): DiagnosisEngine => {
+  const profiles = args.profiles ? loadProfiles(args.profiles) : DEFAULT_PROFILES;
+  if (args.profile && !profiles.some(p => p.id === args.profile)) {
+    throw new Error(`找不到提示词方案：${args.profile}（可选 ${profiles.map(p => p.id).join("、")}）`);
+  }
+  return createDiagnosisEngine({
+    provider: providerFromArgs(args),
+    library: args.library ? loadLibrary(args.library) : [],
+    profiles,
+    defaultProfileId: args.profile,
+    sourcePreferences: {
+      preferredDomains: parseDomainList(args.preferDomains || ""),
+      blockedDomains: parseDomainList(args.blockDomains || ""),
+      onlyPreferred: false,
+    },
+  });
+};
\ No newline at end of file
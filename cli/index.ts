@@ -0,0 +1,126 @@
+import { parseArgs } from "node:util";
+import { runBatchCommand } from "./batch";
+import { engineFromArgs } from "./config";
+import { createApiServer } from "./apiServer";
+
+// 命令行入口：npm run cli -- <batch|serve> [选项]
+const USAGE = `用法：
+  npm run cli -- batch <故障清单.xlsx|.json> [选项]   批量诊断，结果写回为新列或 JSON 报告
+  npm run cli -- serve [选项]                         启动本机 HTTP 接口
+
+模型与资料：
+  --provider <gemini|openai|stub>  模型后端，stub 为测试桩（默认 gemini）
+  --model <名称>                   模型名称
+  --endpoint <地址>                OpenAI 兼容接口地址，如 http://localhost:11434/v1
+  --api-key <key>                  API Key（Gemini 缺省读取 GEMINI_API_KEY）
+  --vision                         OpenAI 兼容后端支持图片输入
+  --library <文件>                 网页端导出的案例库（.xlsx/.json）
+  --profiles <文件>                网页端导出的提示词方案（.json）
+  --profile <id>                   默认使用的提示词方案
+  --prefer-domains <域名,…>        联网检索优先参考的站点
+  --block-domains <域名,…>         联网检索屏蔽的站点
+
+batch：
+  --output <文件>                  输出路径（默认 <输入名>.诊断结果.xlsx/.json）
+  --format <xlsx|json>             输出格式；JSON 输入只能输出 JSON
+  --sheet <名称>                   工作表（默认第一个）
+  --description-column <列名>      故障描述列（默认按列名识别）
+  --model-column <列名>            型号列
+  --id-column <列名>               工单号列，用于断点续跑
+  --concurrency <n>                同时诊断的行数（默认 2，最多 8）
+  --restart                        忽略进度文件，从头诊断
+
+serve：
+  --port <端口>                    默认 8787
+  --host <地址>                    默认 127.0.0.1
+  --token <令牌>                   要求 Authorization: Bearer <令牌>（缺省读取 REPAIR_API_TOKEN）
+  --concurrency <n>                同时进行的诊断数（默认 2）`;
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: "string" },
+      model: { type: "string" },
+      endpoint: { type: "string" },
+      "api-key": { type: "string" },
+      vision: { type: "boolean" },
+      library: { type: "string" },
+      profiles: { type: "string" },
+      profile: { type: "string" },
+      "prefer-domains": { type: "string" },
+      "block-domains": { type: "string" },
+      output: { type: "string" },
+      format: { type: "string" },
+      sheet: { type: "string" },
+      "description-column": { type: "string" },
+      "model-column": { type: "string" },
+      "id-column": { type: "string" },
+      concurrency: { type: "string" },
+      restart: { type: "boolean" },
+      port: { type: "string" },
+      host: { type: "string" },
+      token: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, input] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const engineArgs = {
+    provider: values.provider,
+    model: values.model,
+    endpoint: values.endpoint,
+    apiKey: values["api-key"],
+    vision: values.vision,
+    library: values.library,
+    profiles: values.profiles,
+    profile: values.profile,
+    preferDomains: values["prefer-domains"],
+    blockDomains: values["block-domains"],
+  };
+  const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && !(concurrency >= 1)) throw new Error("--concurrency 须为正整数");
+
+  switch (command) {
+    case "batch":
+      if (!input) throw new Error("请指定故障清单文件");
+      return runBatchCommand({
+        ...engineArgs,
+        input,
+        output: values.output,
+        format: values.format,
+        sheet: values.sheet,
+        descriptionColumn: values["description-column"],
+        modelColumn: values["model-column"],
+        idColumn: values["id-column"],
+        concurrency,
+        restart: values.restart,
+      });
+    case "serve": {
+      const engine = engineFromArgs(engineArgs);
+      const port = Number(values.port || 8787);
+      const host = values.host || "127.0.0.1";
+      const server = createApiServer(engine, { token: values.token || process.env.REPAIR_API_TOKEN, concurrency });
+      await new Promise<void>(resolve => server.listen(port, host, resolve));
+      console.log(`诊断接口已启动：http://${host}:${port}（模型 ${engine.provider.model}，案例库 ${engine.libraryCount} 条）`);
+      process.once("SIGINT", () => server.close());
+      await new Promise(resolve => server.once("close", resolve));
+      return 0;
+    }
+    default:
+      console.log(USAGE);
+      return 1;
+  }
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(`错误：${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+);
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { RepairReport } from "../types";
+import { GenerateRequest, LLMProvider } from "../services/llmProvider";
+
+// 测试桩模型：不联网、不消耗额度，按故障描述生成固定格式的回答（含结构化报告），
+// 用于对接工单系统时联调 HTTP 接口，或演练批量诊断流程。
+export const STUB_MODEL = "stub";
+
+const lastUserText = (request: GenerateRequest) => {
+  const message = [...request.messages].reverse().find(m => m.role === "user");
+  return (message?.parts || []).map(p => p.text || "").join("\n");
+};
+
+/** 从提示词中取出故障描述段落，找不到时取开头部分 */
+const faultDescription = (prompt: string) => {
+  const match = prompt.match(/(?:描述|Description)[：:]\s*([\s\S]*?)(?:\n\n|$)/i);
+  return (match ? match[1] : prompt).replace(/\s+/g, " ").trim().slice(0, 80);
+};
+
+const stubReport = (description: string): RepairReport => ({
+  summary: `测试桩诊断：${description}`,
+  probableCauses: [{ cause: "供电电路异常（测试桩结果）", likelihood: 0.6, reasoning: "测试桩固定输出" }],
+  suspectedComponents: [{ designator: "F1", part: "保险丝", reason: "测试桩固定输出" }],
+  testSteps: [{ order: 1, action: "测量输入电压", testPoint: "J1", expected: "220V AC" }],
+  toolsAndParts: ["万用表"],
+  safetyWarnings: ["测试桩结果，请勿用于实际维修"],
+});
+
+export const createStubProvider = (options: { delayMs?: number } = {}): LLMProvider => {
+  const respond = async (request: GenerateRequest) => {
+    if (options.delayMs) await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    const description = faultDescription(lastUserText(request));
+    const text = `### 诊断结论（测试桩）\n\n收到故障描述：${description}\n\n\`\`\`json\n${JSON.stringify(stubReport(description), null, 2)}\n\`\`\``;
+    return { text };
+  };
+
+  return {
+    id: "openai",
+    model: STUB_MODEL,
+    capabilities: { search: false, images: true },
+    generate: respond,
+    async *stream(request) {
+      yield await respond(request);
+    },
+  };
+};
\ No newline at end of file
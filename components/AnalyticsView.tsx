@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { IconList } from './Icons';
+import { DiagnosisRecord, LibraryItem, RepairTicket } from '../types';
+import {
+  AnalyticsFilter,
+  CountRow,
+  PeriodRow,
+  UNKNOWN_PERIOD,
+  buildAnalytics,
+  buildCaseFacts,
+  exportAnalyticsToXlsx,
+  filterFacts,
+} from '../services/analyticsService';
+
+interface Props {
+  libraryItems: LibraryItem[];
+  history: DiagnosisRecord[];
+  tickets: RepairTicket[];
+}
+
+const SOURCE_OPTIONS: { value: AnalyticsFilter['source']; label: string }[] = [
+  { value: 'all', label: '案例库 + 诊断历史' },
+  { value: 'library', label: '仅案例库' },
+  { value: 'history', label: '仅诊断历史' },
+];
+
+const PERIOD_OPTIONS = [
+  { value: 0, label: '全部时间' },
+  { value: 3, label: '近 3 个月' },
+  { value: 6, label: '近 6 个月' },
+  { value: 12, label: '近 12 个月' },
+];
+
+const BAR_LIMIT = 10;
+
+const selectClass = 'bg-slate-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal';
+const exportClass = 'text-[10px] text-gray-500 hover:text-circuit-teal transition-colors';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// 横向条形图：条长按本组最大值归一化
+const BarList: React.FC<{ rows: CountRow[]; onSelect?: (label: string) => void }> = ({ rows, onSelect }) => {
+  const max = Math.max(1, ...rows.map(r => r.count));
+  if (rows.length === 0) return <p className="text-xs text-gray-500">暂无数据</p>;
+  return (
+    <div className="space-y-2">
+      {rows.slice(0, BAR_LIMIT).map(row => (
+        <div key={row.label} onClick={() => onSelect?.(row.label)} className={`text-xs ${onSelect ? 'cursor-pointer group' : ''}`}>
+          <div className="flex justify-between gap-2 mb-0.5">
+            <span className="text-gray-300 truncate group-hover:text-circuit-teal">{row.label}</span>
+            <span className="text-gray-500 flex-shrink-0">{row.count} · {formatPercent(row.share)}</span>
+          </div>
+          <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+            <div className="h-full bg-circuit-teal/70 rounded-full" style={{ width: `${(row.count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+      {rows.length > BAR_LIMIT && <p className="text-[10px] text-gray-500">另有 {rows.length - BAR_LIMIT} 项，见导出表格</p>}
+    </div>
+  );
+};
+
+// 按月柱状图（SVG）：柱高为案例数，柱上方标注当月 AI 方案确认率
+const TrendChart: React.FC<{ rows: PeriodRow[] }> = ({ rows }) => {
+  const data = rows.filter(r => r.period !== UNKNOWN_PERIOD);
+  if (data.length === 0) return <p className="text-xs text-gray-500">没有可识别日期的案例</p>;
+  const width = 640;
+  const height = 180;
+  const top = 20;
+  const bottom = 24;
+  const slot = width / data.length;
+  const barWidth = Math.min(36, slot * 0.6);
+  const max = Math.max(1, ...data.map(r => r.count));
+  const labelEvery = Math.ceil(data.length / 12);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {data.map((row, i) => {
+        const barHeight = ((height - top - bottom) * row.count) / max;
+        const x = i * slot + (slot - barWidth) / 2;
+        const y = height - bottom - barHeight;
+        return (
+          <g key={row.period}>
+            <title>{`${row.period}：${row.count} 例${row.aiDecided ? `，AI 方案确认 ${row.aiConfirmed}/${row.aiDecided}` : ''}`}</title>
+            <rect x={x} y={y} width={barWidth} height={barHeight} rx={3} className="fill-teal-400/70" />
+            <text x={x + barWidth / 2} y={y - 4} textAnchor="middle" className="fill-gray-400" fontSize={10}>
+              {row.aiDecided ? `${row.count}·${formatPercent(row.aiConfirmed / row.aiDecided)}` : row.count}
+            </text>
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={height - 6} textAnchor="middle" className="fill-gray-500" fontSize={10}>{row.period.slice(2)}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const Card: React.FC<{ title: string; onExport?: () => void; children: React.ReactNode }> = ({ title, onExport, children }) => (
+  <div className="bg-slate-800 border border-gray-700 rounded-2xl p-5 space-y-4">
+    <div className="flex justify-between items-center">
+      <h4 className="text-sm font-bold text-white">{title}</h4>
+      {onExport && <button onClick={onExport} className={exportClass}>导出 .xlsx</button>}
+    </div>
+    {children}
+  </div>
+);
+
+// 维修统计：汇总案例库与诊断历史，回答“某型号最常坏的是什么”
+const AnalyticsView: React.FC<Props> = ({ libraryItems, history, tickets }) => {
+  const [filter, setFilter] = useState<AnalyticsFilter>({ source: 'all' });
+
+  const facts = useMemo(() => buildCaseFacts(libraryItems, history, tickets), [libraryItems, history, tickets]);
+  const models = useMemo(() => Array.from(new Set(facts.map(f => f.model))).sort((a: string, b: string) => a.localeCompare(b, 'zh-CN')), [facts]);
+  const analytics = useMemo(() => buildAnalytics(filterFacts(facts, filter)), [facts, filter]);
+
+  const updateFilter = (patch: Partial<AnalyticsFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+  const exportSheet = (name: string) => () => exportAnalyticsToXlsx(analytics, name);
+
+  if (facts.length === 0) {
+    return (
+      <div className="text-center py-20 bg-slate-800/30 rounded-3xl border border-dashed border-gray-700">
+        <IconList className="w-10 h-10 text-gray-600 mx-auto mb-3" />
+        <p className="text-gray-400 text-sm">案例库和诊断历史为空，导入案例或完成诊断后即可查看统计。</p>
+      </div>
+    );
+  }
+
+  const confirmRate = analytics.aiDecided ? analytics.aiConfirmed / analytics.aiDecided : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={filter.source} onChange={(e) => updateFilter({ source: e.target.value as AnalyticsFilter['source'] })} className={selectClass}>
+          {SOURCE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select value={filter.model || ''} onChange={(e) => updateFilter({ model: e.target.value || undefined })} className={`${selectClass} max-w-[180px]`}>
+          <option value="">全部型号</option>
+          {models.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <select value={filter.months || 0} onChange={(e) => updateFilter({ months: Number(e.target.value) || undefined })} className={selectClass}>
+          {PERIOD_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <button onClick={() => exportAnalyticsToXlsx(analytics)} className="ml-auto text-xs px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:border-circuit-teal hover:text-circuit-teal transition-all">全部导出 .xlsx</button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-slate-800 border border-gray-700 rounded-2xl p-4">
+          <p className="text-[10px] text-gray-500">案例数</p>
+          <p className="text-2xl font-bold text-white">{analytics.total}</p>
+        </div>
+        <div className="bg-slate-800 border border-gray-700 rounded-2xl p-4">
+          <p className="text-[10px] text-gray-500">涉及型号</p>
+          <p className="text-2xl font-bold text-white">{analytics.byModel.length}</p>
+        </div>
+        <div className="bg-slate-800 border border-gray-700 rounded-2xl p-4" title="案例库中标记“AI 辅助”且已验证的案例，加上以“已修复”关闭、根因与 AI 可疑元件一致的工单诊断">
+          <p className="text-[10px] text-gray-500">AI 方案确认率</p>
+          <p className="text-2xl font-bold text-circuit-teal">{confirmRate === undefined ? '—' : formatPercent(confirmRate)}</p>
+          <p className="text-[10px] text-gray-500">{analytics.aiConfirmed} / {analytics.aiDecided} 例有维修结论</p>
+        </div>
+        <div className="bg-slate-800 border border-gray-700 rounded-2xl p-4">
+          <p className="text-[10px] text-gray-500">反复故障</p>
+          <p className="text-2xl font-bold text-yellow-300">{analytics.topFailures.length}</p>
+          <p className="text-[10px] text-gray-500">同型号同元件 ≥ 2 次</p>
+        </div>
+      </div>
+
+      <Card title="按月趋势" onExport={exportSheet('按月份')}>
+        <TrendChart rows={analytics.byPeriod} />
+      </Card>
+
+      <Card title="反复出现的故障" onExport={exportSheet('反复故障')}>
+        {analytics.topFailures.length === 0 ? (
+          <p className="text-xs text-gray-500">没有在同一型号上重复出现的故障元件</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1 font-normal">型号</th>
+                <th className="py-1 font-normal">故障元件</th>
+                <th className="py-1 font-normal text-right">次数</th>
+                <th className="py-1 font-normal text-right">已确认</th>
+                <th className="py-1 font-normal text-right">最近</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.topFailures.map(row => (
+                <tr key={`${row.model}-${row.component}`} className="border-t border-gray-700/60">
+                  <td className="py-1.5 text-gray-300">
+                    <button onClick={() => updateFilter({ model: row.model })} className="hover:text-circuit-teal transition-colors">{row.model}</button>
+                  </td>
+                  <td className="py-1.5 text-white">{row.component}</td>
+                  <td className="py-1.5 text-right text-yellow-300 font-bold">{row.count}</td>
+                  <td className="py-1.5 text-right text-gray-400">{row.confirmed}</td>
+                  <td className="py-1.5 text-right text-gray-500">{row.lastPeriod || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card title="按型号" onExport={exportSheet('按型号')}>
+          <BarList rows={analytics.byModel} onSelect={(model) => updateFilter({ model })} />
+        </Card>
+        <Card title="按故障元件" onExport={exportSheet('按元件')}>
+          <BarList rows={analytics.byComponent} />
+        </Card>
+        <Card title="按故障现象" onExport={exportSheet('按现象')}>
+          <BarList rows={analytics.bySymptom} />
+        </Card>
+        <Card title="按分类" onExport={exportSheet('按分类')}>
+          <BarList rows={analytics.byCategory} />
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsView;
\ No newline at end of file
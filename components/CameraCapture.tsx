@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconCamera, IconRefresh, IconX } from './Icons';
+import { ImageAttachment } from '../types';
+import { MAX_IMAGE_DIMENSION, canvasToAttachment } from '../services/imageService';
+
+interface Props {
+  onCapture: (image: ImageAttachment) => void;
+  onClose: () => void;
+}
+
+const cameraErrorMessage = (err: any) => {
+  if (err?.name === 'NotAllowedError') return '未获得摄像头权限，请在浏览器设置中允许访问摄像头。';
+  if (err?.name === 'NotFoundError' || err?.name === 'OverconstrainedError') return '未检测到可用的摄像头。';
+  if (err?.name === 'NotReadableError') return '摄像头被其他程序占用。';
+  return err?.message || '无法打开摄像头';
+};
+
+// 实时取景拍照：优先使用后置摄像头，可切换前后镜头；拍下的照片与上传的照片一样经过缩放压缩
+const CameraCapture: React.FC<Props> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [captured, setCaptured] = useState(0);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setReady(false);
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('当前浏览器不支持摄像头拍照（需要 HTTPS 或 localhost）。');
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    }).then(s => {
+      if (cancelled) {
+        s.getTracks().forEach(t => t.stop());
+        return;
+      }
+      stream = s;
+      if (videoRef.current) {
+        videoRef.current.srcObject = s;
+        videoRef.current.play().then(() => setReady(true)).catch(err => setError(cameraErrorMessage(err)));
+      }
+    }).catch(err => !cancelled && setError(cameraErrorMessage(err)));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [facingMode]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onCapture(canvasToAttachment(canvas));
+    setCaptured(n => n + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl bg-slate-800 border border-gray-700 rounded-3xl p-4 space-y-4 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-white">拍摄故障照片</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+        </div>
+        <div className="relative bg-black rounded-2xl overflow-hidden aspect-video flex items-center justify-center">
+          <video ref={videoRef} playsInline muted className={`w-full h-full object-contain ${ready ? '' : 'invisible'}`} />
+          {!ready && !error && <p className="absolute text-sm text-gray-400">正在打开摄像头...</p>}
+          {error && <p className="absolute text-sm text-red-400 px-6 text-center">{error}</p>}
+        </div>
+        <div className="flex justify-between items-center">
+          <button onClick={() => setFacingMode(m => (m === 'environment' ? 'user' : 'environment'))} className="flex items-center gap-1 text-sm px-3 py-2 rounded-xl border border-gray-700 text-gray-300 hover:text-circuit-teal hover:border-circuit-teal transition-all"><IconRefresh className="w-4 h-4" /> 切换镜头</button>
+          <button onClick={capture} disabled={!ready} className="flex items-center gap-2 px-6 py-3 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-full font-bold disabled:opacity-40 active:scale-95 transition-all"><IconCamera className="w-5 h-5" /> 拍照</button>
+          <button onClick={onClose} className="text-sm px-3 py-2 text-gray-400 hover:text-white transition-colors">{captured > 0 ? `完成（${captured} 张）` : '取消'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { IconTrash, IconX } from './Icons';
+import { ProviderId, ProviderSettings } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS, createProvider } from '../services/llmProvider';
+import { ComparisonConfig, MAX_COMPARISON_CONFIGS, newConfigId } from '../services/comparisonService';
+
+interface Props {
+  initial: ComparisonConfig[];
+  /** 当前模型设置；切换回同一后端时沿用其中的接口地址和 Key */
+  settings: ProviderSettings;
+  onRun: (configs: ComparisonConfig[]) => void;
+  onCancel: () => void;
+}
+
+// 选择参与对比的配置：每行一个模型 + 是否联网 + 是否附带案例库，最多 4 个并行
+const ComparisonSetup: React.FC<Props> = ({ initial, settings, onRun, onCancel }) => {
+  const [configs, setConfigs] = useState<ComparisonConfig[]>(initial);
+
+  const update = (id: string, patch: Partial<ComparisonConfig>) =>
+    setConfigs(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const switchProvider = (config: ComparisonConfig, provider: ProviderId) => {
+    const next: ProviderSettings = provider === settings.provider ? settings : { provider, model: DEFAULT_MODELS[provider] };
+    update(config.id, { settings: next, useSearch: config.useSearch && createProvider(next).capabilities.search });
+  };
+
+  const add = () => {
+    const last = configs[configs.length - 1];
+    setConfigs(prev => [...prev, { ...(last || { settings, useSearch: false, useLibrary: true }), id: newConfigId() }]);
+  };
+
+  const valid = configs.length >= 2 && configs.every(c => c.settings.model.trim());
+  const inputClass = 'bg-slate-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal';
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-3xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">多配置对比</h3>
+          <p className="text-xs text-gray-400 mt-1">同一故障并行交给多个配置分析，答案并排显示并标出一致的原因和元件。</p>
+        </div>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="space-y-2">
+        {configs.map((config, i) => {
+          const canSearch = createProvider(config.settings).capabilities.search;
+          return (
+            <div key={config.id} className="flex flex-wrap items-center gap-2 bg-slate-900/50 border border-gray-700 rounded-xl px-3 py-2">
+              <span className="text-xs font-bold text-circuit-teal w-5">{String.fromCharCode(65 + i)}</span>
+              <select value={config.settings.provider} onChange={(e) => switchProvider(config, e.target.value as ProviderId)} className={inputClass}>
+                {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+              <input
+                value={config.settings.model}
+                onChange={(e) => update(config.id, { settings: { ...config.settings, model: e.target.value } })}
+                placeholder="模型名称"
+                className={`${inputClass} flex-grow min-w-[140px]`}
+              />
+              <label className={`flex items-center gap-1 text-xs ${canSearch ? 'text-gray-300' : 'text-gray-600'}`} title={canSearch ? '' : '该后端不支持联网检索'}>
+                <input type="checkbox" checked={config.useSearch} disabled={!canSearch} onChange={(e) => update(config.id, { useSearch: e.target.checked })} className="accent-teal-500" />
+                联网
+              </label>
+              <label className="flex items-center gap-1 text-xs text-gray-300">
+                <input type="checkbox" checked={config.useLibrary} onChange={(e) => update(config.id, { useLibrary: e.target.checked })} className="accent-teal-500" />
+                案例库
+              </label>
+              <button onClick={() => setConfigs(prev => prev.filter(c => c.id !== config.id))} disabled={configs.length <= 2} title="移除" className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30"><IconTrash className="w-3 h-3" /></button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between items-center">
+        <button onClick={add} disabled={configs.length >= MAX_COMPARISON_CONFIGS} className="text-xs text-gray-400 hover:text-circuit-teal disabled:opacity-40 transition-colors">+ 添加配置</button>
+        <button onClick={() => onRun(configs.map(c => ({ ...c, settings: { ...c.settings, model: c.settings.model.trim() } })))} disabled={!valid} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">开始对比</button>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonSetup;
\ No newline at end of file
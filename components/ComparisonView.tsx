@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { IconAlert, IconStop, IconX } from './Icons';
+import MarkdownRenderer from './MarkdownRenderer';
+import { AgreementCluster, ClusterMember, ComparisonCandidate, componentLabel, configLabel, findAgreement } from '../services/comparisonService';
+
+interface Props {
+  candidates: ComparisonCandidate[];
+  running: boolean;
+  /** 选用一个方案，或把多个方案合并为一条诊断记录 */
+  onKeep: (ids: string[]) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ComparisonCandidate['status'], { text: string; className: string }> = {
+  running: { text: '分析中', className: 'text-blue-300 border-blue-800 bg-blue-900/30' },
+  done: { text: '完成', className: 'text-green-300 border-green-800 bg-green-900/30' },
+  error: { text: '失败', className: 'text-red-300 border-red-800 bg-red-900/30' },
+};
+
+const memberKey = (member: ClusterMember) => `${member.candidateId}:${member.index}`;
+
+const supportMap = (clusters: AgreementCluster[]) => {
+  const map = new Map<string, number>();
+  clusters.forEach(cluster => cluster.members.forEach(m => map.set(memberKey(m), cluster.support)));
+  return map;
+};
+
+// 多配置对比：各方案并排显示，两个及以上方案一致的原因和元件高亮
+const ComparisonView: React.FC<Props> = ({ candidates, running, onKeep, onStop, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const agreement = useMemo(
+    () => findAgreement(candidates.map(c => ({ id: c.config.id, result: c.result }))),
+    [candidates]
+  );
+  // 某条原因/元件 -> 有几个方案一致
+  const causeSupport = useMemo(() => supportMap(agreement.causes), [agreement]);
+  const componentSupport = useMemo(() => supportMap(agreement.components), [agreement]);
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, id: string) =>
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+
+  const finished = candidates.filter(c => c.status === 'done' && c.result);
+  const selectedIds = candidates.filter(c => selected.has(c.config.id) && c.result).map(c => c.config.id);
+  const hasAgreement = agreement.causes.length > 0 || agreement.components.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-white">多配置对比</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            {running ? `${finished.length} / ${candidates.length} 个配置已完成…` : `共 ${candidates.length} 个配置，${finished.length} 个给出了诊断`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {running && (
+            <button onClick={onStop} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-red-800 text-red-300 hover:bg-red-900/30 transition-all">
+              <IconStop className="w-3 h-3" /> 全部停止
+            </button>
+          )}
+          <button
+            onClick={() => onKeep(selectedIds)}
+            disabled={running || selectedIds.length < 2}
+            title="勾选两个及以上方案后合并为一条诊断记录"
+            className="text-xs px-3 py-1.5 rounded-lg bg-circuit-teal text-slate-900 font-bold hover:bg-teal-400 disabled:opacity-40 transition-all"
+          >
+            合并所选{selectedIds.length > 0 ? `（${selectedIds.length}）` : ''}
+          </button>
+          <button onClick={onClose} disabled={running} title="放弃对比" className="p-1.5 text-gray-500 hover:text-white disabled:opacity-30"><IconX className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {finished.length >= 2 && (
+        <div className="bg-teal-900/20 border border-teal-800 rounded-2xl p-4 text-xs space-y-2">
+          {hasAgreement ? (
+            <>
+              {agreement.causes.length > 0 && (
+                <p className="text-gray-300">
+                  <span className="text-circuit-teal font-bold">共同指向的原因：</span>
+                  {agreement.causes.map(c => `${c.label}（${c.support}/${finished.length}）`).join('；')}
+                </p>
+              )}
+              {agreement.components.length > 0 && (
+                <p className="text-gray-300">
+                  <span className="text-circuit-teal font-bold">共同怀疑的元件：</span>
+                  {agreement.components.map(c => `${c.label}（${c.support}/${finished.length}）`).join('；')}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-400">各方案没有一致的原因或元件，建议结合现场测量判断。</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-4 overflow-x-auto pb-2" style={{ gridTemplateColumns: `repeat(${candidates.length}, minmax(260px, 1fr))` }}>
+        {candidates.map((candidate, i) => {
+          const id = candidate.config.id;
+          const report = candidate.result?.report;
+          const status = STATUS_LABELS[candidate.status];
+          return (
+            <div key={id} className="bg-slate-800 border border-gray-700 rounded-2xl p-4 flex flex-col gap-3 min-w-0">
+              <div className="flex items-start gap-2">
+                {candidate.result && (
+                  <input type="checkbox" checked={selected.has(id)} onChange={() => toggle(setSelected, id)} disabled={running} className="mt-1 accent-teal-500" title="选中参与合并" />
+                )}
+                <div className="flex-grow min-w-0">
+                  <p className="text-xs font-bold text-white break-words"><span className="text-circuit-teal mr-1">{String.fromCharCode(65 + i)}</span>{configLabel(candidate.config)}</p>
+                  <span className={`inline-block mt-1 text-[10px] px-2 py-0.5 rounded border ${status.className}`}>{status.text}</span>
+                </div>
+              </div>
+
+              {candidate.status === 'error' && (
+                <p className="text-xs text-red-300 flex gap-1"><IconAlert className="w-3 h-3 flex-shrink-0 mt-0.5" />{candidate.error}</p>
+              )}
+
+              {candidate.status === 'running' && (
+                <div className="text-xs text-gray-400 max-h-80 overflow-y-auto whitespace-pre-wrap">{candidate.text || '等待模型响应…'}</div>
+              )}
+
+              {candidate.result && (
+                <>
+                  <p className="text-sm text-gray-200">{report?.summary || candidate.result.diagnosis}</p>
+                  {report && report.probableCauses.length > 0 && (
+                    <div>
+                      <p className="text-[10px] text-gray-500 mb-1">可能原因</p>
+                      <ul className="space-y-1">
+                        {report.probableCauses.map((cause, index) => {
+                          const support = causeSupport.get(`${id}:${index}`);
+                          return (
+                            <li key={index} className={`text-xs rounded-lg px-2 py-1 ${support ? 'bg-teal-900/40 border border-teal-700 text-teal-100' : 'text-gray-300'}`}>
+                              {cause.cause}
+                              <span className="text-gray-500 ml-1">{Math.round(cause.likelihood * 100)}%</span>
+                              {support && <span className="ml-1 text-[10px] text-circuit-teal">{support} 个方案一致</span>}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+                  {report && report.suspectedComponents.length > 0 && (
+                    <div>
+                      <p className="text-[10px] text-gray-500 mb-1">可疑元件</p>
+                      <div className="flex flex-wrap gap-1">
+                        {report.suspectedComponents.map((component, index) => {
+                          const support = componentSupport.get(`${id}:${index}`);
+                          return (
+                            <span key={index} title={component.reason} className={`text-[10px] px-2 py-0.5 rounded border ${support ? 'bg-teal-900/40 border-teal-700 text-teal-100' : 'border-gray-700 text-gray-300'}`}>
+                              {componentLabel(component)}
+                            </span>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                  <button onClick={() => toggle(setExpanded, id)} className="text-[10px] text-gray-500 hover:text-circuit-teal text-left transition-colors">
+                    {expanded.has(id) ? '收起完整回答' : '展开完整回答'}
+                  </button>
+                  {expanded.has(id) && (
+                    <div className="text-sm max-h-96 overflow-y-auto border-t border-gray-700 pt-2">
+                      <MarkdownRenderer content={candidate.result.rawText} sources={candidate.result.sources} />
+                    </div>
+                  )}
+                  <button
+                    onClick={() => onKeep([id])}
+                    disabled={running}
+                    className="mt-auto text-xs py-2 rounded-xl border border-circuit-teal/60 text-circuit-teal hover:bg-circuit-teal hover:text-slate-900 font-bold disabled:opacity-40 transition-all"
+                  >
+                    选用此方案
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
\ No newline at end of file
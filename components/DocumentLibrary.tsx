@@ -0,0 +1,90 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { IconFileText, IconTrash, IconUpload } from './Icons';
+import { ReferenceDocument } from '../types';
+import { DOCUMENT_ACCEPT } from '../services/documentService';
+
+interface Props {
+  documents: ReferenceDocument[];
+  /** 读取并登记文档，失败时 reject 并带中文错误信息 */
+  onAdd: (file: File, model: string) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+// 按设备型号登记的技术文档；诊断描述或工单中出现该型号时自动附带相关页
+const DocumentLibrary: React.FC<Props> = ({ documents, onAdd, onDelete }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [model, setModel] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const grouped = useMemo(() => {
+    const groups = new Map<string, ReferenceDocument[]>();
+    documents.forEach(doc => {
+      const key = doc.model || '';
+      groups.set(key, [...(groups.get(key) || []), doc]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [documents]);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+    setBusy(true);
+    setError(null);
+    for (const file of files) {
+      try {
+        await onAdd(file, model.trim());
+      } catch (err: any) {
+        setError(err.message || `《${file.name}》读取失败`);
+      }
+    }
+    setBusy(false);
+  };
+
+  const remove = (doc: ReferenceDocument) => {
+    if (window.confirm(`确定删除文档“${doc.name}”吗？`)) onDelete(doc.id);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-gray-700 rounded-3xl p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><IconFileText className="w-5 h-5 text-circuit-teal" /> 技术文档</h3>
+        <p className="text-gray-400 text-xs mt-1">登记电路图、维修手册、规格书（PDF/文本），文字在本机提取。故障描述或工单中出现对应型号时，会自动检索相关页随诊断发送。</p>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          placeholder="设备型号，如 PSU-200"
+          className="flex-grow bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!model.trim() || busy}
+          className="flex items-center gap-1 px-4 py-2 rounded-xl border border-gray-700 text-sm text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all"
+        >
+          <IconUpload className="w-4 h-4" /> {busy ? '正在提取...' : '添加文档'}
+        </button>
+        <input type="file" ref={fileInputRef} accept={DOCUMENT_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {grouped.map(([groupModel, docs]) => (
+        <div key={groupModel} className="space-y-2">
+          <h4 className="text-xs font-bold text-gray-500">{groupModel || '未指定型号'}</h4>
+          {docs.map(doc => (
+            <div key={doc.id} className="flex justify-between items-center bg-slate-800 border border-gray-700 rounded-xl px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{doc.name}</p>
+                <p className="text-[10px] text-gray-500">{doc.kind === 'pdf' ? 'PDF' : '文本'} · {doc.pages.length} 页有文字 · {new Date(doc.addedAt).toLocaleDateString('zh-CN')}</p>
+              </div>
+              <button onClick={() => remove(doc)} title="删除" className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-slate-700 transition-all"><IconTrash className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentLibrary;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import React from 'react';
+import { IconAlert } from './Icons';
+
+export interface ErrorInfo {
+  message: string;
+  /** 建议的处理方式，来自错误分类 */
+  action?: string;
+  /** 原始错误信息，默认折叠 */
+  detail?: string;
+}
+
+interface Props {
+  error: ErrorInfo;
+  className?: string;
+}
+
+const ErrorNotice: React.FC<Props> = ({ error, className = '' }) => (
+  <div className={`p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-sm flex items-start gap-3 ${className}`}>
+    <IconAlert className="w-5 h-5 flex-shrink-0" />
+    <div className="min-w-0 space-y-1">
+      <p>{error.message}</p>
+      {error.action && <p className="text-xs text-red-300/80">建议：{error.action}</p>}
+      {error.detail && error.detail !== error.message && (
+        <details className="text-[10px] text-red-300/60">
+          <summary className="cursor-pointer select-none">技术细节</summary>
+          <p className="mt-1 break-all font-mono">{error.detail}</p>
+        </details>
+      )}
+    </div>
+  </div>
+);
+
+export default ErrorNotice;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { IconStop } from './Icons';
+import { FollowUpTurn } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import SourceList from './SourceList';
+
+interface Props {
+  turns: FollowUpTurn[];
+  pendingQuestion: string | null;
+  streamingText: string;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+}
+
+const FollowUpThread: React.FC<Props> = ({ turns, pendingQuestion, streamingText, onAsk, onStop }) => {
+  const [question, setQuestion] = useState('');
+  const isBusy = pendingQuestion !== null;
+
+  const submit = () => {
+    if (!question.trim() || isBusy) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-bold text-gray-400">追问 / 反馈测量结果</h3>
+
+      {turns.map(turn => (
+        <div key={turn.id} className="space-y-3">
+          <div className="ml-auto max-w-[85%] bg-circuit-teal/10 border border-circuit-teal/30 text-white text-sm rounded-2xl rounded-tr-sm px-4 py-3 whitespace-pre-wrap">{turn.question}</div>
+          <div className="bg-slate-800 border border-gray-700 rounded-2xl rounded-tl-sm p-5">
+            <MarkdownRenderer content={turn.answer} sources={turn.sources} />
+            <SourceList sources={turn.sources} searchQueries={turn.searchQueries} compact />
+          </div>
+        </div>
+      ))}
+
+      {pendingQuestion !== null && (
+        <div className="space-y-3">
+          <div className="ml-auto max-w-[85%] bg-circuit-teal/10 border border-circuit-teal/30 text-white text-sm rounded-2xl rounded-tr-sm px-4 py-3 whitespace-pre-wrap">{pendingQuestion}</div>
+          <div className="bg-slate-800 border border-gray-700 rounded-2xl rounded-tl-sm p-5">
+            {streamingText ? <MarkdownRenderer content={streamingText} /> : <p className="text-gray-500 text-sm animate-pulse">分析中...</p>}
+            <button onClick={onStop} className="mt-3 flex items-center gap-1 text-xs text-red-400 hover:text-red-300 transition-colors"><IconStop className="w-3 h-3" /> 停止</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit(); }}
+          disabled={isBusy}
+          className="flex-grow bg-slate-900 border border-gray-700 rounded-2xl p-3 text-sm text-white focus:ring-2 focus:ring-circuit-teal outline-none h-20 transition-all disabled:opacity-50"
+          placeholder="例如：按方案测得 Q3 栅极电压为 0V，下一步该查什么？（Ctrl+Enter 发送）"
+        />
+        <button onClick={submit} disabled={isBusy || !question.trim()} className="px-5 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-2xl font-bold text-sm disabled:opacity-40 transition-all">发送</button>
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpThread;
\ No newline at end of file
@@ -0,0 +1,52 @@
+import React from 'react';
+import { IconClock, IconRefresh, IconTrash } from './Icons';
+import { DiagnosisRecord } from '../types';
+
+interface Props {
+  records: DiagnosisRecord[];
+  onOpen: (record: DiagnosisRecord) => void;
+  onDelete: (id: string) => void;
+  onRerun: (record: DiagnosisRecord) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+
+const HistoryView: React.FC<Props> = ({ records, onOpen, onDelete, onRerun }) => {
+  if (records.length === 0) {
+    return (
+      <div className="bg-slate-800/50 border border-gray-700 rounded-3xl p-12 text-center">
+        <IconClock className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-2">暂无诊断记录</h3>
+        <p className="text-gray-400 text-sm">完成的诊断会自动保存在本机，可随时重新打开或再次分析。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {records.map(record => (
+        <div key={record.id} onClick={() => onOpen(record)} className="bg-slate-800 border border-gray-700 p-5 rounded-2xl hover:border-circuit-teal cursor-pointer group transition-all">
+          <div className="flex justify-between items-start gap-4">
+            <div className="min-w-0 flex-grow">
+              <div className="flex items-center gap-2 text-[10px] text-gray-500 mb-2">
+                <IconClock className="w-3 h-3" />
+                <span>{formatTime(record.createdAt)}</span>
+                {record.images.length > 0 && <span className="bg-slate-700 px-2 py-0.5 rounded">{record.images.length} 张照片</span>}
+                {record.result.sources.length > 0 && <span className="bg-slate-700 px-2 py-0.5 rounded">{record.result.sources.length} 个参考</span>}
+                {record.profile && <span className="bg-slate-700 px-2 py-0.5 rounded">{record.profile.name}</span>}
+              </div>
+              <p className="text-white text-sm line-clamp-2 group-hover:text-circuit-teal transition-colors">{record.description || '（仅照片）'}</p>
+              {record.result.report && <p className="text-xs text-circuit-teal/80 mt-1 truncate">诊断：{record.result.report.summary}</p>}
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <button onClick={(e) => { e.stopPropagation(); onRerun(record); }} title="重新分析" className="p-2 rounded-lg text-gray-500 hover:text-circuit-teal hover:bg-slate-700 transition-all"><IconRefresh className="w-4 h-4" /></button>
+              <button onClick={(e) => { e.stopPropagation(); onDelete(record.id); }} title="删除" className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-slate-700 transition-all"><IconTrash className="w-4 h-4" /></button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryView;
\ No newline at end of file
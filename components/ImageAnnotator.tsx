@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconX } from './Icons';
+import { ImageAttachment } from '../types';
+import { canvasToAttachment, toDataUrl } from '../services/imageService';
+
+interface Props {
+  image: ImageAttachment;
+  onSave: (image: ImageAttachment) => void;
+  onCancel: () => void;
+}
+
+type Tool = 'pen' | 'arrow' | 'circle';
+
+interface Point { x: number; y: number }
+
+interface Shape {
+  tool: Tool;
+  color: string;
+  points: Point[];
+}
+
+const TOOLS: { value: Tool; label: string }[] = [
+  { value: 'circle', label: '圈选' },
+  { value: 'arrow', label: '箭头' },
+  { value: 'pen', label: '画笔' },
+];
+
+const COLORS = ['#ef4444', '#facc15', '#22d3ee', '#ffffff'];
+
+const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape, lineWidth: number) => {
+  const { points } = shape;
+  if (points.length < 2) return;
+  const start = points[0];
+  const end = points[points.length - 1];
+  ctx.strokeStyle = shape.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  if (shape.tool === 'pen') {
+    ctx.moveTo(start.x, start.y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  } else if (shape.tool === 'circle') {
+    // 以拖动范围为外接矩形画椭圆
+    ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+  } else {
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    const head = lineWidth * 4;
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.moveTo(end.x - head * Math.cos(angle - Math.PI / 6), end.y - head * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(end.x, end.y);
+    ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 6), end.y - head * Math.sin(angle + Math.PI / 6));
+  }
+  ctx.stroke();
+};
+
+// 在照片上圈出/指出可疑元件；保存时标注直接合成进图片，随图片一起发送给模型
+const ImageAnnotator: React.FC<Props> = ({ image, onSave, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const [shapes, setShapes] = useState<Shape[]>([]);
+  const [drawing, setDrawing] = useState<Shape | null>(null);
+  const [tool, setTool] = useState<Tool>('circle');
+  const [color, setColor] = useState(COLORS[0]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      imageRef.current = img;
+      const canvas = canvasRef.current;
+      if (canvas) {
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+      }
+      setLoaded(true);
+    };
+    img.src = toDataUrl(image);
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const img = imageRef.current;
+    if (!canvas || !img || !loaded) return;
+    const ctx = canvas.getContext('2d')!;
+    const lineWidth = Math.max(3, Math.round(Math.max(canvas.width, canvas.height) / 200));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    [...shapes, ...(drawing ? [drawing] : [])].forEach(shape => drawShape(ctx, shape, lineWidth));
+  }, [shapes, drawing, loaded]);
+
+  // 画布按显示尺寸缩放，需把指针坐标换算回图片像素坐标
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    setDrawing({ tool, color, points: [point, point] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing) return;
+    const point = toImagePoint(e);
+    setDrawing(prev => prev && {
+      ...prev,
+      points: prev.tool === 'pen' ? [...prev.points, point] : [prev.points[0], point],
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    setShapes(prev => [...prev, drawing]);
+    setDrawing(null);
+  };
+
+  const save = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onSave(shapes.length > 0 ? canvasToAttachment(canvas, image.id) : image);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs transition-all ${active ? 'border-circuit-teal text-circuit-teal' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl bg-slate-800 border border-gray-700 rounded-3xl p-4 space-y-4 shadow-2xl">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-white">标注故障部位</h3>
+          <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(t => <button key={t.value} onClick={() => setTool(t.value)} className={buttonClass(tool === t.value)}>{t.label}</button>)}
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          {COLORS.map(c => (
+            <button key={c} onClick={() => setColor(c)} title={c} className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-white' : 'border-transparent'}`} style={{ backgroundColor: c }} />
+          ))}
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          <button onClick={() => setShapes(prev => prev.slice(0, -1))} disabled={shapes.length === 0} className={`${buttonClass(false)} disabled:opacity-40`}>撤销</button>
+          <button onClick={() => setShapes([])} disabled={shapes.length === 0} className={`${buttonClass(false)} disabled:opacity-40`}>清除</button>
+        </div>
+        <div className="bg-black rounded-2xl overflow-hidden flex items-center justify-center max-h-[65vh]">
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="max-w-full max-h-[65vh] cursor-crosshair touch-none"
+          />
+        </div>
+        <div className="flex justify-between items-center">
+          <p className="text-xs text-gray-500">标注会合成到照片中一起发送给 AI，便于指明烧毁或可疑的元件。</p>
+          <button onClick={save} disabled={!loaded} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">完成</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnnotator;
\ No newline at end of file
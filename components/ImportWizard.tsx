@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { IconAlert, IconX } from './Icons';
+import { LibraryItem } from '../types';
+import {
+  ImportSheet,
+  ColumnMapping,
+  LibraryField,
+  FIELD_LABELS,
+  guessColumnMapping,
+  buildImportPreview
+} from '../services/libraryService';
+
+export type ImportMode = 'merge' | 'replace';
+
+interface Props {
+  fileName: string;
+  sheets: ImportSheet[];
+  existing: LibraryItem[];
+  onConfirm: (items: LibraryItem[], mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const MAPPED_FIELDS: LibraryField[] = ['name', 'model', 'category', 'description', 'analysis', 'date', 'technician', 'rootCause'];
+const PREVIEW_LIMIT = 50;
+
+const STATUS_STYLE = {
+  ok: 'text-green-400',
+  error: 'text-red-400',
+  duplicate: 'text-yellow-400',
+};
+
+const STATUS_LABEL = {
+  ok: '可导入',
+  error: '错误',
+  duplicate: '重复',
+};
+
+const ImportWizard: React.FC<Props> = ({ fileName, sheets, existing, onConfirm, onCancel }) => {
+  const [selectedSheets, setSelectedSheets] = useState<string[]>(() => sheets.slice(0, 1).map(s => s.name));
+  const headers = useMemo(() => {
+    const all = new Set<string>();
+    sheets.filter(s => selectedSheets.includes(s.name)).forEach(s => s.headers.forEach(h => all.add(h)));
+    return Array.from(all);
+  }, [sheets, selectedSheets]);
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(sheets[0]?.headers || []));
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const preview = useMemo(
+    () => buildImportPreview(
+      sheets.filter(s => selectedSheets.includes(s.name)),
+      mapping,
+      mode === 'merge' ? existing : []
+    ),
+    [sheets, selectedSheets, mapping, mode, existing]
+  );
+
+  const counts = {
+    ok: preview.filter(r => r.status === 'ok').length,
+    error: preview.filter(r => r.status === 'error').length,
+    duplicate: preview.filter(r => r.status === 'duplicate').length,
+  };
+  const importable = preview
+    .filter(r => r.status === 'ok' || (includeDuplicates && r.status === 'duplicate'))
+    .map(r => r.item as LibraryItem);
+
+  const toggleSheet = (name: string) => {
+    const next = selectedSheets.includes(name) ? selectedSheets.filter(n => n !== name) : [...selectedSheets, name];
+    setSelectedSheets(next);
+    // 首次选中某个工作表时，用它的表头补全尚未映射的字段
+    const sheet = sheets.find(s => s.name === name);
+    if (sheet && !selectedSheets.includes(name)) {
+      setMapping(prev => ({ ...guessColumnMapping(sheet.headers), ...prev }));
+    }
+  };
+
+  const updateMapping = (field: LibraryField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column || undefined }));
+  };
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-3xl p-6 space-y-6 text-left">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">导入预览</h3>
+          <p className="text-xs text-gray-500">{fileName}</p>
+        </div>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+
+      {sheets.length > 1 && (
+        <div>
+          <p className="text-xs font-bold text-gray-400 mb-2">工作表</p>
+          <div className="flex flex-wrap gap-2">
+            {sheets.map(sheet => (
+              <label key={sheet.name} className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-lg border cursor-pointer ${selectedSheets.includes(sheet.name) ? 'border-circuit-teal text-white' : 'border-gray-700 text-gray-400'}`}>
+                <input type="checkbox" checked={selectedSheets.includes(sheet.name)} onChange={() => toggleSheet(sheet.name)} className="accent-teal-500" />
+                {sheet.name} <span className="text-gray-500">({sheet.rows.length} 行)</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-bold text-gray-400 mb-2">列映射</p>
+        <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+          {MAPPED_FIELDS.map(field => (
+            <label key={field} className="block text-xs text-gray-400 space-y-1">
+              <span>{FIELD_LABELS[field]}{field === 'description' && <span className="text-red-400"> *</span>}</span>
+              <select
+                value={mapping[field] || ''}
+                onChange={(e) => updateMapping(field, e.target.value)}
+                className="w-full bg-slate-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal"
+              >
+                <option value="">（不导入）</option>
+                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+          <p className="text-xs font-bold text-gray-400">
+            校验结果：
+            <span className="text-green-400 ml-2">可导入 {counts.ok}</span>
+            <span className="text-yellow-400 ml-2">重复 {counts.duplicate}</span>
+            <span className="text-red-400 ml-2">错误 {counts.error}</span>
+          </p>
+          {preview.length > PREVIEW_LIMIT && <span className="text-[10px] text-gray-500">仅显示前 {PREVIEW_LIMIT} 行</span>}
+        </div>
+        <div className="max-h-72 overflow-auto rounded-xl border border-gray-700">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-900 text-gray-500 sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2 font-medium">行</th>
+                <th className="text-left px-3 py-2 font-medium">状态</th>
+                <th className="text-left px-3 py-2 font-medium">设备</th>
+                <th className="text-left px-3 py-2 font-medium">故障现象</th>
+                <th className="text-left px-3 py-2 font-medium">说明</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.slice(0, PREVIEW_LIMIT).map(r => (
+                <tr key={`${r.sheet}-${r.rowNumber}`} className="border-t border-gray-800">
+                  <td className="px-3 py-1.5 text-gray-500 whitespace-nowrap">{selectedSheets.length > 1 ? `${r.sheet}:` : ''}{r.rowNumber}</td>
+                  <td className={`px-3 py-1.5 whitespace-nowrap ${STATUS_STYLE[r.status]}`}>{STATUS_LABEL[r.status]}</td>
+                  <td className="px-3 py-1.5 text-gray-300 max-w-[140px] truncate">{r.item?.name}</td>
+                  <td className="px-3 py-1.5 text-gray-300 max-w-[240px] truncate">{r.item?.description}</td>
+                  <td className="px-3 py-1.5 text-gray-500">{r.messages.join('；')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {!mapping.description && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-xs flex items-center gap-2">
+          <IconAlert className="w-4 h-4 flex-shrink-0" /> 请为“故障现象”选择对应的列。
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2"><input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-teal-500" /> 合并到现有案例库</label>
+          <label className="flex items-center gap-2"><input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-teal-500" /> 替换现有案例库</label>
+          <label className="flex items-center gap-2"><input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} className="accent-teal-500" /> 包含重复行</label>
+        </div>
+        <button
+          onClick={() => onConfirm(importable, mode)}
+          disabled={importable.length === 0}
+          className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all"
+        >导入 {importable.length} 条</button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { IconX } from './Icons';
+import { LibraryItem } from '../types';
+import { DEFAULT_CATEGORY } from '../services/libraryService';
+
+interface Props {
+  /** 为空时新建案例 */
+  item?: LibraryItem;
+  categories: string[];
+  onSave: (item: LibraryItem) => void;
+  onCancel: () => void;
+}
+
+const emptyItem = (): LibraryItem => ({
+  id: `lib-${Date.now()}`,
+  name: '',
+  category: DEFAULT_CATEGORY,
+  description: '',
+});
+
+const LibraryItemEditor: React.FC<Props> = ({ item, categories, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<LibraryItem>(() => item ? { ...item } : emptyItem());
+
+  const update = (field: keyof LibraryItem) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  const canSave = draft.name.trim() && draft.description.trim();
+
+  const submit = () => {
+    if (!canSave) return;
+    const trimmed = (value?: string) => value?.trim() || undefined;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      category: draft.category.trim() || DEFAULT_CATEGORY,
+      description: draft.description.trim(),
+      model: trimmed(draft.model),
+      analysis: trimmed(draft.analysis),
+      rootCause: trimmed(draft.rootCause),
+      date: trimmed(draft.date),
+      technician: trimmed(draft.technician),
+    });
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-2xl p-5 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-white">{item ? '编辑案例' : '新建案例'}</h3>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-xs text-gray-400 space-y-1"><span>设备名称 *</span><input value={draft.name} onChange={update('name')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>型号</span><input value={draft.model || ''} onChange={update('model')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>分类</span>
+          <input value={draft.category} onChange={update('category')} list="library-categories" className={inputClass} />
+          <datalist id="library-categories">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </label>
+      </div>
+      <label className="block text-xs text-gray-400 space-y-1"><span>故障现象 *</span><textarea value={draft.description} onChange={update('description')} className={`${inputClass} h-20`} /></label>
+      <label className="block text-xs text-gray-400 space-y-1"><span>维修方案</span><textarea value={draft.analysis || ''} onChange={update('analysis')} className={`${inputClass} h-28`} /></label>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-xs text-gray-400 space-y-1"><span>故障元件</span><input value={draft.rootCause || ''} onChange={update('rootCause')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>日期</span><input value={draft.date || ''} onChange={update('date')} placeholder="2024-05-01" className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>维修人</span><input value={draft.technician || ''} onChange={update('technician')} className={inputClass} /></label>
+      </div>
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={!!draft.verified} onChange={(e) => setDraft(prev => ({ ...prev, verified: e.target.checked }))} className="accent-teal-500" />
+          已实际维修验证
+        </label>
+        <button onClick={submit} disabled={!canSave} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">保存</button>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryItemEditor;
\ No newline at end of file
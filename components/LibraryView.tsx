@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { IconSearch, IconTrash, IconWrench } from './Icons';
+import { LibraryItem } from '../types';
+import { EMPTY_LIBRARY_QUERY, LibraryQuery, LibrarySort, SolutionFilter, filterLibrary } from '../services/libraryService';
+import LibraryItemEditor from './LibraryItemEditor';
+
+interface Props {
+  items: LibraryItem[];
+  onSelect: (item: LibraryItem) => void;
+  onSave: (item: LibraryItem) => void;
+  onDelete: (id: string) => void;
+}
+
+const SORT_OPTIONS: { value: LibrarySort; label: string }[] = [
+  { value: 'default', label: '默认顺序' },
+  { value: 'date', label: '日期（新→旧）' },
+  { value: 'name', label: '设备名称' },
+  { value: 'category', label: '分类' },
+];
+
+const SOLUTION_OPTIONS: { value: SolutionFilter; label: string }[] = [
+  { value: 'all', label: '全部' },
+  { value: 'with', label: '有方案' },
+  { value: 'without', label: '无方案' },
+];
+
+const selectClass = 'bg-slate-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal';
+
+const LibraryView: React.FC<Props> = ({ items, onSelect, onSave, onDelete }) => {
+  const [query, setQuery] = useState<LibraryQuery>(EMPTY_LIBRARY_QUERY);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const categories = useMemo(() => Array.from(new Set(items.map(i => i.category))).sort(), [items]);
+  const models = useMemo(() => Array.from(new Set(items.map(i => i.model || i.name))).sort(), [items]);
+  const visible = useMemo(() => filterLibrary(items, query), [items, query]);
+
+  const updateQuery = <K extends keyof LibraryQuery>(key: K, value: LibraryQuery[K]) =>
+    setQuery(prev => ({ ...prev, [key]: value }));
+
+  const save = (item: LibraryItem) => {
+    onSave(item);
+    setEditingId(null);
+    setIsCreating(false);
+  };
+
+  const remove = (item: LibraryItem) => {
+    if (window.confirm(`确定删除案例“${item.name}”吗？`)) onDelete(item.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 items-center">
+        <div className="relative flex-grow min-w-[200px]">
+          <IconSearch className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={query.text}
+            onChange={(e) => updateQuery('text', e.target.value)}
+            placeholder="搜索设备、现象、方案..."
+            className="w-full bg-slate-900 border border-gray-700 rounded-lg pl-9 pr-3 py-1.5 text-sm text-white outline-none focus:ring-1 focus:ring-circuit-teal"
+          />
+        </div>
+        <select value={query.category} onChange={(e) => updateQuery('category', e.target.value)} className={selectClass}>
+          <option value="">全部分类</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={query.model} onChange={(e) => updateQuery('model', e.target.value)} className={`${selectClass} max-w-[160px]`}>
+          <option value="">全部型号</option>
+          {models.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <select value={query.solution} onChange={(e) => updateQuery('solution', e.target.value as SolutionFilter)} className={selectClass}>
+          {SOLUTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select value={query.sort} onChange={(e) => updateQuery('sort', e.target.value as LibrarySort)} className={selectClass}>
+          {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-500">显示 {visible.length} / {items.length} 条案例</span>
+        <button onClick={() => { setIsCreating(true); setEditingId(null); }} className="text-xs px-3 py-1.5 rounded-lg bg-circuit-teal/10 border border-circuit-teal/40 text-circuit-teal hover:bg-circuit-teal/20 transition-all">+ 新建案例</button>
+      </div>
+
+      {isCreating && (
+        <LibraryItemEditor categories={categories} onSave={save} onCancel={() => setIsCreating(false)} />
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {visible.map(item => editingId === item.id ? (
+          <div key={item.id} className="sm:col-span-2">
+            <LibraryItemEditor item={item} categories={categories} onSave={save} onCancel={() => setEditingId(null)} />
+          </div>
+        ) : (
+          <div key={item.id} onClick={() => onSelect(item)} className="bg-slate-800 border border-gray-700 p-5 rounded-2xl hover:border-circuit-teal cursor-pointer group transition-all">
+            <div className="flex justify-between items-start mb-2 gap-2">
+              <div className="min-w-0">
+                <h4 className="text-white font-bold group-hover:text-circuit-teal transition-colors truncate">{item.name}</h4>
+                <p className="text-[10px] text-gray-500">{[item.category, item.model, item.date].filter(Boolean).join(' · ')}</p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                {item.verified && <span className="text-[10px] bg-teal-900/40 text-teal-300 px-2 py-0.5 rounded border border-teal-800">已验证</span>}
+                {item.aiAssisted && <span className="text-[10px] bg-blue-900/40 text-blue-300 px-2 py-0.5 rounded border border-blue-800">AI 辅助</span>}
+                {item.analysis && <span className="text-[10px] bg-green-900/40 text-green-400 px-2 py-0.5 rounded border border-green-800">有方案</span>}
+              </div>
+            </div>
+            <p className="text-gray-500 text-xs line-clamp-2">{item.description}</p>
+            {item.rootCause && <p className="text-xs text-gray-400 mt-2">故障元件：<span className="font-mono text-circuit-teal">{item.rootCause}</span></p>}
+            <div className="flex justify-end gap-1 mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={(e) => { e.stopPropagation(); setEditingId(item.id); setIsCreating(false); }} title="编辑" className="p-1.5 rounded-lg text-gray-500 hover:text-circuit-teal hover:bg-slate-700"><IconWrench className="w-3.5 h-3.5" /></button>
+              <button onClick={(e) => { e.stopPropagation(); remove(item); }} title="删除" className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-slate-700"><IconTrash className="w-3.5 h-3.5" /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {items.length > 0 && visible.length === 0 && (
+        <p className="text-center text-sm text-gray-500 py-8">没有符合条件的案例</p>
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
\ No newline at end of file
@@ -1,61 +1,125 @@
-import React from 'react';
+import React, { createContext, useContext, useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../services/markdownParser';
+import { GroundingChunk } from '../types';
 
 interface Props {
   content: string;
+  /** 联网来源，正文中的 [^n] 标记链接到第 n 项 */
+  sources?: GroundingChunk[];
 }
 
-// Simple regex-based markdown parser for specific needs of this app
-// Used to avoid large dependencies in this environment
-const MarkdownRenderer: React.FC<Props> = ({ content }) => {
-  const lines = content.split('\n');
+const SourcesContext = createContext<GroundingChunk[]>([]);
 
+// 引用标记渲染为上标；找不到对应来源时只显示序号
+const Citation: React.FC<{ index: number }> = ({ index }) => {
+  const web = useContext(SourcesContext)[index - 1]?.web;
+  if (!web) return <sup className="text-[0.7em] text-gray-500">[{index}]</sup>;
   return (
-    <div className="space-y-4 text-gray-200 leading-relaxed">
-      {lines.map((line, index) => {
-        // Headers
-        if (line.startsWith('## ')) {
-          return <h2 key={index} className="text-xl font-bold text-circuit-teal mt-6 mb-2 border-b border-gray-700 pb-2">{line.replace('## ', '')}</h2>;
-        }
-        if (line.startsWith('### ')) {
-          return <h3 key={index} className="text-lg font-semibold text-blue-400 mt-4 mb-1">{line.replace('### ', '')}</h3>;
-        }
-        if (line.startsWith('* **') || line.startsWith('- **')) {
-           // List items with bold start
-           const cleanLine = line.replace(/^\* \*\*/, '').replace(/^- \*\*/, '');
-           const parts = cleanLine.split('**:');
-           if (parts.length > 1) {
-             return (
-               <li key={index} className="ml-4 list-disc marker:text-circuit-teal">
-                 <span className="font-bold text-white">{parts[0]}:</span>
-                 <span>{parts.slice(1).join('**:')}</span>
-               </li>
-             );
-           }
-        }
-        
-        // Bullet points
-        if (line.trim().startsWith('* ') || line.trim().startsWith('- ')) {
-          return <li key={index} className="ml-4 list-disc marker:text-gray-500">{line.replace(/^[\*\-] /, '')}</li>;
-        }
-
-        // Bold processing for normal paragraphs
-        const parts = line.split(/(\*\*.*?\*\*)/g);
-        
-        if (line.trim() === '') return <br key={index} />;
-
-        return (
-          <p key={index} className="">
-            {parts.map((part, i) => {
-              if (part.startsWith('**') && part.endsWith('**')) {
-                return <strong key={i} className="text-white font-semibold">{part.slice(2, -2)}</strong>;
-              }
-              return part;
-            })}
-          </p>
-        );
-      })}
-    </div>
+    <sup className="text-[0.7em]">
+      <a href={web.uri} target="_blank" rel="noopener noreferrer" title={web.domain ? `${web.title}（${web.domain}）` : web.title} className="text-circuit-teal hover:underline">[{index}]</a>
+    </sup>
   );
 };
 
-export default MarkdownRenderer;
+// 不依赖第三方库的 Markdown 渲染：解析器只返回数据节点，所有字符串都作为文本交给 React，
+// 模型输出中的 HTML 标签不会被解释执行。
+const renderInline = (nodes: InlineNode[], keyPrefix = ''): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    const key = `${keyPrefix}${i}`;
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{node.value}</React.Fragment>;
+      case 'strong':
+        return <strong key={key} className="text-white font-semibold">{renderInline(node.children, `${key}-`)}</strong>;
+      case 'em':
+        return <em key={key} className="italic text-gray-100">{renderInline(node.children, `${key}-`)}</em>;
+      case 'code':
+        return <code key={key} className="font-mono text-[0.9em] bg-slate-900 text-circuit-teal px-1.5 py-0.5 rounded border border-gray-700">{node.value}</code>;
+      case 'link':
+        return <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className="text-circuit-teal underline underline-offset-2 hover:text-teal-300">{renderInline(node.children, `${key}-`)}</a>;
+      case 'citation':
+        return <Citation key={key} index={node.index} />;
+      case 'break':
+        return <br key={key} />;
+    }
+  });
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold text-white mt-6 mb-2',
+  2: 'text-xl font-bold text-circuit-teal mt-6 mb-2 border-b border-gray-700 pb-2',
+  3: 'text-lg font-semibold text-blue-400 mt-4 mb-1',
+};
+
+const renderListItem = (blocks: BlockNode[], key: string) => {
+  // 紧凑列表项（只有一段文字，可能带子列表）不额外包 <p>，避免多余的段落间距
+  const [first, ...rest] = blocks;
+  if (first?.type === 'paragraph') {
+    return <>{renderInline(first.children, `${key}-`)}{rest.map((b, i) => renderBlock(b, `${key}-${i}`))}</>;
+  }
+  return <>{blocks.map((b, i) => renderBlock(b, `${key}-${i}`))}</>;
+};
+
+const renderBlock = (block: BlockNode, key: string): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return React.createElement(
+        `h${block.level}`,
+        { key, className: HEADING_CLASSES[block.level] || 'font-semibold text-gray-100 mt-3' },
+        renderInline(block.children, `${key}-`)
+      );
+    case 'paragraph':
+      return <p key={key}>{renderInline(block.children, `${key}-`)}</p>;
+    case 'list': {
+      const items = block.items.map((item, i) => (
+        <li key={i} className={block.ordered ? 'marker:text-circuit-teal marker:font-semibold pl-1' : 'marker:text-circuit-teal'}>{renderListItem(item, `${key}-${i}`)}</li>
+      ));
+      return block.ordered
+        ? <ol key={key} start={block.start} className="list-decimal ml-6 space-y-1">{items}</ol>
+        : <ul key={key} className="list-disc ml-6 space-y-1">{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre key={key} className="bg-slate-900 border border-gray-700 rounded-xl p-4 overflow-x-auto text-sm">
+          {block.lang && <div className="text-[10px] uppercase text-gray-500 mb-2">{block.lang}</div>}
+          <code className="font-mono text-gray-200 whitespace-pre">{block.value}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto rounded-xl border border-gray-700">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-900 text-gray-300">
+              <tr>
+                {block.header.map((cell, c) => <th key={c} style={{ textAlign: block.align[c] || 'left' }} className="px-3 py-2 font-semibold border-b border-gray-700">{renderInline(cell, `${key}-h${c}-`)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-t border-gray-800 even:bg-slate-900/40">
+                  {row.map((cell, c) => <td key={c} style={{ textAlign: block.align[c] || 'left' }} className="px-3 py-2 align-top">{renderInline(cell, `${key}-${r}-${c}-`)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'blockquote':
+      return <blockquote key={key} className="border-l-4 border-circuit-teal/50 pl-4 text-gray-300 space-y-2">{block.children.map((b, i) => renderBlock(b, `${key}-${i}`))}</blockquote>;
+    case 'hr':
+      return <hr key={key} className="border-gray-700 my-6" />;
+  }
+};
+
+const MarkdownRenderer: React.FC<Props> = ({ content, sources = [] }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <SourcesContext.Provider value={sources}>
+      <div className="space-y-4 text-gray-200 leading-relaxed">
+        {blocks.map((block, index) => renderBlock(block, String(index)))}
+      </div>
+    </SourcesContext.Provider>
+  );
+};
+
+export default MarkdownRenderer;
\ No newline at end of file
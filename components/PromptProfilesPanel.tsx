@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { IconTrash, IconUpload, IconX } from './Icons';
+import { PromptLanguage, PromptProfile } from '../types';
+import {
+  DEFAULT_PROFILES,
+  DEFAULT_PROMPT_TEMPLATE,
+  LANGUAGE_LABELS,
+  exportProfilesToJson,
+  importProfilesFromJson,
+  newProfileId,
+} from '../services/promptProfileService';
+
+interface Props {
+  profiles: PromptProfile[];
+  onSave: (profiles: PromptProfile[]) => void;
+  onClose: () => void;
+}
+
+// 管理提示词方案：按产品线设置角色侧重、故障上报模板、输出语言、联网检索和温度
+const PromptProfilesPanel: React.FC<Props> = ({ profiles, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PromptProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = draft.find(p => p.id === selectedId) || draft[0];
+
+  const update = (patch: Partial<PromptProfile>) => {
+    if (!selected) return;
+    setDraft(prev => prev.map(p => (p.id === selected.id ? { ...p, ...patch } : p)));
+  };
+
+  const add = (base?: PromptProfile) => {
+    const profile: PromptProfile = base
+      ? { ...base, id: newProfileId(), name: `${base.name}（副本）` }
+      : { id: newProfileId(), name: '新方案', systemInstruction: DEFAULT_PROFILES[0].systemInstruction, promptTemplate: DEFAULT_PROMPT_TEMPLATE, language: 'zh', useSearch: true };
+    setDraft(prev => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const remove = () => {
+    if (!selected || draft.length <= 1) return;
+    if (!window.confirm(`确定删除方案“${selected.name}”吗？`)) return;
+    const next = draft.filter(p => p.id !== selected.id);
+    setDraft(next);
+    setSelectedId(next[0].id);
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('恢复内置方案？同 id 的方案会被覆盖，自建方案保留。')) return;
+    setDraft(prev => [...DEFAULT_PROFILES, ...prev.filter(p => !DEFAULT_PROFILES.some(d => d.id === p.id))]);
+    setSelectedId(DEFAULT_PROFILES[0].id);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setError(null);
+    file.text().then(text => setDraft(importProfilesFromJson(text, draft))).catch((err: any) => setError(err.message || 'JSON 导入失败'));
+  };
+
+  const invalid = draft.some(p => !p.name.trim() || !p.systemInstruction.trim());
+  const save = () => {
+    onSave(draft.map(p => ({ ...p, name: p.name.trim(), systemInstruction: p.systemInstruction.trim(), productLine: p.productLine?.trim() || undefined })));
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+  const buttonClass = 'text-xs px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-800 border border-gray-700 rounded-3xl p-6 space-y-5 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-white">提示词方案</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => add()} className={buttonClass}>新建</button>
+          <button onClick={() => selected && add(selected)} disabled={!selected} className={buttonClass}>复制当前</button>
+          <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} flex items-center gap-1`}><IconUpload className="w-3 h-3" /> 导入 JSON</button>
+          <button onClick={() => exportProfilesToJson(draft)} className={buttonClass}>导出 JSON</button>
+          <button onClick={restoreDefaults} className={buttonClass}>恢复内置方案</button>
+          <input type="file" ref={fileInputRef} accept=".json" onChange={handleImport} className="hidden" />
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="grid md:grid-cols-[12rem_1fr] gap-4">
+          <div className="space-y-1">
+            {draft.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={`w-full text-left px-3 py-2 rounded-xl border text-sm transition-all ${p.id === selected?.id ? 'border-circuit-teal text-white bg-slate-900' : 'border-transparent text-gray-400 hover:text-white hover:bg-slate-700/50'}`}
+              >
+                <p className="truncate">{p.name || '（未命名）'}</p>
+                <p className="text-[10px] text-gray-500 truncate">{LANGUAGE_LABELS[p.language]}{p.productLine ? ` · ${p.productLine}` : ''}</p>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-xs text-gray-400 space-y-1">
+                  <span>方案名称</span>
+                  <input value={selected.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block text-xs text-gray-400 space-y-1">
+                  <span>适用产品线</span>
+                  <input value={selected.productLine || ''} onChange={(e) => update({ productLine: e.target.value })} placeholder="如 开关电源" className={inputClass} />
+                </label>
+                <label className="block text-xs text-gray-400 space-y-1">
+                  <span>输出语言</span>
+                  <select value={selected.language} onChange={(e) => update({ language: e.target.value as PromptLanguage })} className={inputClass}>
+                    {(Object.keys(LANGUAGE_LABELS) as PromptLanguage[]).map(lang => <option key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</option>)}
+                  </select>
+                </label>
+                <label className="block text-xs text-gray-400 space-y-1">
+                  <span>温度（0–2，留空使用模型默认值）</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={selected.temperature ?? ''}
+                    onChange={(e) => update({ temperature: e.target.value === '' ? undefined : Math.min(2, Math.max(0, Number(e.target.value))) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={selected.useSearch} onChange={(e) => update({ useSearch: e.target.checked })} className="accent-teal-500" />
+                启用联网检索（googleSearch，仅 Gemini 支持）
+              </label>
+
+              <label className="block text-xs text-gray-400 space-y-1">
+                <span>系统提示词（角色与侧重点；工作流、文档引用规则和结构化报告格式会自动追加）</span>
+                <textarea value={selected.systemInstruction} onChange={(e) => update({ systemInstruction: e.target.value })} rows={7} className={`${inputClass} font-mono`} />
+              </label>
+
+              <label className="block text-xs text-gray-400 space-y-1">
+                <span>故障上报模板（{'{{description}}'} 为故障描述，{'{{context}}'} 为知识库与文档等附加信息）</span>
+                <textarea value={selected.promptTemplate} onChange={(e) => update({ promptTemplate: e.target.value })} rows={4} className={`${inputClass} font-mono`} />
+              </label>
+
+              <button onClick={remove} disabled={draft.length <= 1} className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-400 disabled:opacity-40 transition-colors"><IconTrash className="w-3 h-3" /> 删除此方案</button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] text-gray-500">{invalid ? '每个方案都需要名称和系统提示词。' : '诊断时可在提交按钮上方切换方案，所用方案会随诊断记录保存。'}</p>
+          <button onClick={save} disabled={invalid} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptProfilesPanel;
\ No newline at end of file
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { IconAlert, IconCpu, IconList, IconSearch, IconWrench } from './Icons';
+import { RepairReport } from '../types';
+import { downloadBlob } from '../services/downloadService';
+
+interface Props {
+  report: RepairReport;
+}
+
+const likelihoodLabel = (value: number) => (value >= 0.6 ? '高' : value >= 0.3 ? '中' : '低');
+
+const likelihoodColor = (value: number) => (value >= 0.6 ? 'bg-red-500' : value >= 0.3 ? 'bg-yellow-500' : 'bg-gray-500');
+
+const SourceTag: React.FC<{ source?: string }> = ({ source }) =>
+  source ? <span className="inline-block mt-2 text-[10px] bg-blue-900/30 text-blue-300 border border-blue-800 px-2 py-0.5 rounded">📄 {source}</span> : null;
+
+const SectionTitle: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h3 className="text-sm font-bold text-blue-400 mb-3 flex items-center gap-2">{icon}{children}</h3>
+);
+
+const RepairReportView: React.FC<Props> = ({ report }) => {
+  const [doneSteps, setDoneSteps] = useState<Set<number>>(new Set());
+  const [stepFilter, setStepFilter] = useState('');
+
+  const toggleStep = (order: number) => {
+    setDoneSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(order)) next.delete(order); else next.add(order);
+      return next;
+    });
+  };
+
+  const keyword = stepFilter.trim().toLowerCase();
+  const visibleSteps = keyword
+    ? report.testSteps.filter(step => [step.action, step.testPoint, step.expected].some(v => v?.toLowerCase().includes(keyword)))
+    : report.testSteps;
+
+  const exportSteps = () => {
+    const lines = [
+      `# ${report.summary}`,
+      '',
+      ...report.testSteps.map(step =>
+        `- [${doneSteps.has(step.order) ? 'x' : ' '}] ${step.order}. ${step.action}` +
+        (step.testPoint ? `（测试点：${step.testPoint}）` : '') +
+        (step.expected ? ` → 预期：${step.expected}` : '') +
+        (step.source ? `〔${step.source}〕` : '')
+      ),
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, `检测步骤-${Date.now()}.md`);
+  };
+
+  return (
+    <div className="space-y-8 text-gray-200">
+      <div>
+        <p className="text-xs text-gray-500 mb-1">诊断结论</p>
+        <p className="text-xl font-bold text-circuit-teal">{report.summary}</p>
+      </div>
+
+      {report.safetyWarnings.length > 0 && (
+        <div className="p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-sm">
+          <p className="font-bold flex items-center gap-2 mb-2"><IconAlert className="w-4 h-4" /> 安全警告</p>
+          <ul className="space-y-1 list-disc ml-5">
+            {report.safetyWarnings.map((w, i) => <li key={i}>{w}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {report.probableCauses.length > 0 && (
+        <div>
+          <SectionTitle icon={<IconSearch className="w-4 h-4" />}>可能原因</SectionTitle>
+          <div className="space-y-3">
+            {report.probableCauses.map((c, i) => (
+              <div key={i} className="bg-slate-900/50 border border-gray-700 rounded-xl p-3">
+                <div className="flex justify-between items-center gap-3 mb-2">
+                  <span className="text-white font-semibold text-sm">{i + 1}. {c.cause}</span>
+                  <span className="text-[10px] text-gray-400 flex-shrink-0">可能性 {likelihoodLabel(c.likelihood)} · {Math.round(c.likelihood * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div className={`h-full ${likelihoodColor(c.likelihood)}`} style={{ width: `${Math.round(c.likelihood * 100)}%` }}></div>
+                </div>
+                {c.reasoning && <p className="text-xs text-gray-400 mt-2">{c.reasoning}</p>}
+                <SourceTag source={c.source} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.suspectedComponents.length > 0 && (
+        <div>
+          <SectionTitle icon={<IconCpu className="w-4 h-4" />}>可疑元件</SectionTitle>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {report.suspectedComponents.map((c, i) => (
+              <div key={i} className="bg-slate-900/50 border border-gray-700 rounded-xl p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  {c.designator && <span className="font-mono text-xs bg-circuit-teal/20 text-circuit-teal px-2 py-0.5 rounded">{c.designator}</span>}
+                  <span className="text-white">{c.part}</span>
+                </div>
+                {c.reason && <p className="text-xs text-gray-400 mt-1">{c.reason}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.testSteps.length > 0 && (
+        <div>
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+            <SectionTitle icon={<IconList className="w-4 h-4" />}>检测步骤 <span className="text-gray-500 font-normal">({doneSteps.size}/{report.testSteps.length})</span></SectionTitle>
+            <div className="flex gap-2">
+              <input value={stepFilter} onChange={(e) => setStepFilter(e.target.value)} placeholder="筛选步骤..." className="bg-slate-900 border border-gray-700 rounded-lg px-3 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal" />
+              <button onClick={exportSteps} className="text-xs px-3 py-1 rounded-lg border border-gray-700 text-gray-400 hover:text-circuit-teal hover:border-circuit-teal transition-all">导出</button>
+            </div>
+          </div>
+          <ol className="space-y-2">
+            {visibleSteps.map(step => (
+              <li key={step.order} onClick={() => toggleStep(step.order)} className={`flex gap-3 bg-slate-900/50 border rounded-xl p-3 cursor-pointer transition-all ${doneSteps.has(step.order) ? 'border-green-800 opacity-60' : 'border-gray-700 hover:border-circuit-teal'}`}>
+                <input type="checkbox" readOnly checked={doneSteps.has(step.order)} className="mt-1 accent-teal-500" />
+                <div className="text-sm">
+                  <p className={`text-white ${doneSteps.has(step.order) ? 'line-through' : ''}`}>{step.order}. {step.action}</p>
+                  {(step.testPoint || step.expected) && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {step.testPoint && <span>测试点：<span className="font-mono text-gray-300">{step.testPoint}</span></span>}
+                      {step.testPoint && step.expected && <span className="mx-2">·</span>}
+                      {step.expected && <span>预期：<span className="font-mono text-circuit-teal">{step.expected}</span></span>}
+                    </p>
+                  )}
+                  <SourceTag source={step.source} />
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {report.toolsAndParts.length > 0 && (
+        <div>
+          <SectionTitle icon={<IconWrench className="w-4 h-4" />}>所需工具 / 备件</SectionTitle>
+          <div className="flex flex-wrap gap-2">
+            {report.toolsAndParts.map((t, i) => <span key={i} className="text-xs bg-slate-700 text-gray-200 px-3 py-1 rounded-full">{t}</span>)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepairReportView;
\ No newline at end of file
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { IconX } from './Icons';
+import { DiagnosisRecord, LibraryItem } from '../types';
+import { DEFAULT_CATEGORY } from '../services/libraryService';
+
+interface Props {
+  record: DiagnosisRecord;
+  /** 关联工单的设备型号 */
+  ticketModel?: string;
+  categories: string[];
+  onSave: (item: LibraryItem) => void;
+  onCancel: () => void;
+}
+
+// 从诊断记录预填：设备与型号只取本次维修自己的（工单或维修单中的设备），不借用参考案例；
+// 根因取结构化报告中的首个可疑元件
+const initialValues = (record: DiagnosisRecord, ticketModel?: string) => {
+  const report = record.result.report;
+  const topComponent = report?.suspectedComponents[0];
+  const device = ticketModel || record.workOrder?.device || '';
+  return {
+    name: device,
+    model: device,
+    category: DEFAULT_CATEGORY,
+    description: record.description,
+    analysis: report ? [report.summary, ...report.testSteps.map(s => `${s.order}. ${s.action}`)].join('\n') : record.result.rawText,
+    rootCause: topComponent ? [topComponent.designator, topComponent.part].filter(Boolean).join(' ') : '',
+  };
+};
+
+const SaveToLibraryForm: React.FC<Props> = ({ record, ticketModel, categories, onSave, onCancel }) => {
+  const [values, setValues] = useState(() => initialValues(record, ticketModel));
+  const [verified, setVerified] = useState(true);
+
+  const update = (field: keyof typeof values) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const canSave = values.name.trim() && values.description.trim() && values.analysis.trim();
+
+  const submit = () => {
+    if (!canSave) return;
+    onSave({
+      id: `lib-${Date.now()}`,
+      name: values.name.trim(),
+      model: values.model.trim() || undefined,
+      category: values.category.trim() || DEFAULT_CATEGORY,
+      description: values.description.trim(),
+      analysis: values.analysis.trim(),
+      rootCause: values.rootCause.trim() || undefined,
+      date: new Date().toISOString().slice(0, 10),
+      aiAssisted: true,
+      verified,
+      sourceRecordId: record.id,
+    });
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-3xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">存入案例库</h3>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-4">
+        <label className="block text-xs text-gray-400 space-y-1"><span>设备名称</span><input value={values.name} onChange={update('name')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>型号</span><input value={values.model} onChange={update('model')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>分类</span>
+          <input value={values.category} onChange={update('category')} list="save-library-categories" className={inputClass} />
+          <datalist id="save-library-categories">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>故障元件（根因）</span><input value={values.rootCause} onChange={update('rootCause')} placeholder="如 Q3 MOS 管" className={inputClass} /></label>
+      </div>
+      <label className="block text-xs text-gray-400 space-y-1"><span>故障现象</span><textarea value={values.description} onChange={update('description')} className={`${inputClass} h-20`} /></label>
+      <label className="block text-xs text-gray-400 space-y-1"><span>最终维修方案</span><textarea value={values.analysis} onChange={update('analysis')} className={`${inputClass} h-32`} /></label>
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={verified} onChange={(e) => setVerified(e.target.checked)} className="accent-teal-500" />
+          已实际维修验证
+          <span className="text-[10px] bg-blue-900/40 text-blue-300 px-2 py-0.5 rounded border border-blue-800">AI 辅助</span>
+        </label>
+        <button onClick={submit} disabled={!canSave} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">保存</button>
+      </div>
+    </div>
+  );
+};
+
+export default SaveToLibraryForm;
\ No newline at end of file
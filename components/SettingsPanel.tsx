@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { IconX } from './Icons';
+import { ProviderId, ProviderSettings, SourcePreferences } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS, createProvider } from '../services/llmProvider';
+import { classifyError } from '../services/errorService';
+import { parseDomainList } from '../services/groundingService';
+
+interface Props {
+  settings: ProviderSettings;
+  sources: SourcePreferences;
+  onSave: (settings: ProviderSettings, sources: SourcePreferences) => void;
+  onClose: () => void;
+}
+
+type TestState = { status: 'idle' | 'testing' | 'ok' | 'error'; message?: string };
+
+const SettingsPanel: React.FC<Props> = ({ settings, sources, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [preferredText, setPreferredText] = useState(sources.preferredDomains.join('\n'));
+  const [blockedText, setBlockedText] = useState(sources.blockedDomains.join('\n'));
+  const [onlyPreferred, setOnlyPreferred] = useState(sources.onlyPreferred);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const capabilities = createProvider(draft).capabilities;
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTest({ status: 'idle' });
+  };
+
+  const switchProvider = (provider: ProviderId) => {
+    update({ provider, model: DEFAULT_MODELS[provider] });
+  };
+
+  const testConnection = async () => {
+    setTest({ status: 'testing' });
+    try {
+      const result = await createProvider(draft).generate({
+        systemInstruction: '只回复 OK。',
+        messages: [{ role: 'user', parts: [{ text: 'ping' }] }],
+        useSearch: false,
+        signal: AbortSignal.timeout(20000),
+      });
+      setTest({ status: 'ok', message: result.text.slice(0, 60) || '已连接' });
+    } catch (err: any) {
+      const classified = classifyError(err);
+      setTest({ status: 'error', message: classified.category === 'unknown' ? err.message || '连接失败' : `${classified.message}${classified.action}` });
+    }
+  };
+
+  const save = () => {
+    onSave(
+      { ...draft, model: draft.model.trim() },
+      { preferredDomains: parseDomainList(preferredText), blockedDomains: parseDomainList(blockedText), onlyPreferred }
+    );
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-slate-800 border border-gray-700 rounded-3xl p-6 space-y-5 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-white">模型设置</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+        </div>
+
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>模型后端</span>
+          <select value={draft.provider} onChange={(e) => switchProvider(e.target.value as ProviderId)} className={inputClass}>
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+          </select>
+        </label>
+
+        {draft.provider === 'openai' && (
+          <label className="block text-xs text-gray-400 space-y-1">
+            <span>接口地址</span>
+            <input value={draft.endpoint || ''} onChange={(e) => update({ endpoint: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+          </label>
+        )}
+
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>模型名称</span>
+          <input value={draft.model} onChange={(e) => update({ model: e.target.value })} className={inputClass} />
+        </label>
+
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>API Key {draft.provider === 'gemini' ? '（留空则使用部署时配置的 GEMINI_API_KEY）' : '（本地服务通常无需填写）'}</span>
+          <input type="password" value={draft.apiKey || ''} onChange={(e) => update({ apiKey: e.target.value })} className={inputClass} />
+        </label>
+
+        {draft.provider === 'openai' && (
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={!!draft.supportsImages} onChange={(e) => update({ supportsImages: e.target.checked })} className="accent-teal-500" />
+            该模型支持图片输入（视觉模型）
+          </label>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-[10px]">
+          <span className={`px-2 py-0.5 rounded border ${capabilities.search ? 'bg-green-900/40 text-green-400 border-green-800' : 'bg-slate-700 text-gray-400 border-gray-600'}`}>{capabilities.search ? '支持联网检索' : '无联网检索'}</span>
+          <span className={`px-2 py-0.5 rounded border ${capabilities.images ? 'bg-green-900/40 text-green-400 border-green-800' : 'bg-slate-700 text-gray-400 border-gray-600'}`}>{capabilities.images ? '支持图片输入' : '不支持图片'}</span>
+        </div>
+
+        {capabilities.search && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">联网检索来源（每行一个域名，包含子域名）</p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-[10px] text-gray-500 space-y-1">
+                <span>可信站点：优先检索并排在前面</span>
+                <textarea value={preferredText} onChange={(e) => setPreferredText(e.target.value)} placeholder={'ti.com\nst.com'} rows={3} className={`${inputClass} font-mono`} />
+              </label>
+              <label className="block text-[10px] text-gray-500 space-y-1">
+                <span>屏蔽站点：不采用其内容</span>
+                <textarea value={blockedText} onChange={(e) => setBlockedText(e.target.value)} rows={3} className={`${inputClass} font-mono`} />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={onlyPreferred} onChange={(e) => setOnlyPreferred(e.target.checked)} className="accent-teal-500" />
+              只保留可信站点的来源
+            </label>
+          </div>
+        )}
+
+        {test.status !== 'idle' && (
+          <p className={`text-xs break-all ${test.status === 'error' ? 'text-red-400' : test.status === 'ok' ? 'text-green-400' : 'text-gray-400'}`}>
+            {test.status === 'testing' ? '正在测试连接...' : test.status === 'ok' ? `连接成功：${test.message}` : `连接失败：${test.message}`}
+          </p>
+        )}
+
+        <div className="flex justify-between items-center">
+          <button onClick={testConnection} disabled={test.status === 'testing' || !draft.model.trim()} className="text-sm px-4 py-2 rounded-xl border border-gray-700 text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all">测试连接</button>
+          <button onClick={save} disabled={!draft.model.trim()} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
\ No newline at end of file
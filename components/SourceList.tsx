@@ -0,0 +1,40 @@
+import React from 'react';
+import { IconLink, IconSearch } from './Icons';
+import { GroundingChunk } from '../types';
+
+interface Props {
+  sources: GroundingChunk[];
+  searchQueries?: string[];
+  /** 追问回答中使用的紧凑样式 */
+  compact?: boolean;
+}
+
+// 联网来源列表：序号与正文中的 [n] 引用标记一致；旧记录中没有链接的空条目不显示
+const SourceList: React.FC<Props> = ({ sources, searchQueries = [], compact = false }) => {
+  const numbered = sources.map((s, i) => ({ source: s, number: i + 1 })).filter(({ source }) => source.web);
+  if (numbered.length === 0 && searchQueries.length === 0) return null;
+
+  return (
+    <div className={compact ? 'mt-4 pt-3 border-t border-gray-700 space-y-2' : 'p-4 bg-slate-900/50 rounded-2xl border border-gray-800 space-y-3'}>
+      {!compact && <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2"><IconLink className="w-3 h-3" /> 参考资源</h4>}
+      {searchQueries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-gray-500">
+          <IconSearch className="w-3 h-3" /> 检索词
+          {searchQueries.map(q => <span key={q} className="bg-slate-800 border border-gray-700 text-gray-300 px-2 py-0.5 rounded">{q}</span>)}
+        </div>
+      )}
+      <ol className={compact ? 'space-y-1' : 'grid gap-2 sm:grid-cols-2'}>
+        {numbered.map(({ source, number }) => (
+          <li key={number} className={compact ? 'text-xs flex items-center gap-2 min-w-0' : 'text-sm flex items-center gap-2 min-w-0 bg-slate-800 p-2 rounded-lg border border-gray-700'}>
+            <span className="text-gray-500 flex-shrink-0">[{number}]</span>
+            <a href={source.web!.uri} target="_blank" rel="noreferrer" className="text-circuit-teal hover:underline truncate">{source.web!.title}</a>
+            {source.web!.domain && source.web!.domain !== source.web!.title && <span className="text-[10px] text-gray-500 truncate flex-shrink-0 max-w-[40%]">{source.web!.domain}</span>}
+            {source.preferred && <span className="text-[10px] bg-teal-900/40 text-teal-300 px-1.5 py-0.5 rounded border border-teal-800 flex-shrink-0">可信</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SourceList;
\ No newline at end of file
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { IconClock, IconTrash, IconWrench, IconX } from './Icons';
+import { DiagnosisRecord, RepairTicket, TicketStatus } from '../types';
+import {
+  TICKET_STATUS_LABELS,
+  addTicketNote,
+  addTicketPart,
+  changeTicketStatus,
+  closeTicket,
+  estimateTimeSpentHours,
+  isClosedStatus,
+  nextStatuses,
+  removeTicketPart,
+  suggestRootCause,
+  ticketAgeDays
+} from '../services/ticketService';
+import { STATUS_BADGE } from './TicketsView';
+
+interface Props {
+  ticket: RepairTicket;
+  /** 该工单下的诊断记录 */
+  records: DiagnosisRecord[];
+  onChange: (ticket: RepairTicket) => void;
+  onDiagnose: (ticket: RepairTicket) => void;
+  onOpenRecord: (record: DiagnosisRecord) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+
+const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-xs font-bold text-gray-500 uppercase mb-3">{children}</h4>
+);
+
+const CloseTicketForm: React.FC<{ ticket: RepairTicket; records: DiagnosisRecord[]; onClose: (ticket: RepairTicket) => void; onCancel: () => void }> = ({ ticket, records, onClose, onCancel }) => {
+  const [status, setStatus] = useState<'repaired' | 'scrapped'>('repaired');
+  const [rootCause, setRootCause] = useState(() => suggestRootCause(records));
+  const [hours, setHours] = useState(() => String(estimateTimeSpentHours(ticket)));
+
+  const timeSpentHours = Number(hours);
+  const canClose = rootCause.trim() && hours.trim() !== '' && Number.isFinite(timeSpentHours) && timeSpentHours >= 0;
+
+  return (
+    <div className="bg-slate-900/60 border border-circuit-teal/40 rounded-2xl p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-bold text-white">关闭工单</h4>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="flex gap-2">
+        {(['repaired', 'scrapped'] as const).map(s => (
+          <button key={s} onClick={() => setStatus(s)} className={`px-3 py-1 rounded-lg border text-xs transition-all ${status === s ? STATUS_BADGE[s] : 'border-gray-700 text-gray-400 hover:text-white'}`}>{TICKET_STATUS_LABELS[s]}</button>
+        ))}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-xs text-gray-400 space-y-1 sm:col-span-2"><span>确认的故障根因 *</span><input value={rootCause} onChange={(e) => setRootCause(e.target.value)} placeholder="如 Q3 MOS 管击穿" className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>实际耗时（小时） *</span><input type="number" min="0" step="0.5" value={hours} onChange={(e) => setHours(e.target.value)} className={inputClass} /></label>
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={() => canClose && onClose(closeTicket(ticket, { status, rootCause: rootCause.trim(), timeSpentHours }))}
+          disabled={!canClose}
+          className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all"
+        >
+          确认关闭
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TicketDetail: React.FC<Props> = ({ ticket, records, onChange, onDiagnose, onOpenRecord, onDelete, onBack }) => {
+  const [isClosing, setIsClosing] = useState(false);
+  const [note, setNote] = useState('');
+  const [part, setPart] = useState({ part: '', designator: '', quantity: '1' });
+
+  const closed = isClosedStatus(ticket.status);
+
+  const changeStatus = (status: TicketStatus) => onChange(changeTicketStatus(ticket, status));
+
+  const submitNote = () => {
+    if (!note.trim()) return;
+    onChange(addTicketNote(ticket, note.trim()));
+    setNote('');
+  };
+
+  const quantity = parseInt(part.quantity, 10);
+  const canAddPart = part.part.trim() && quantity > 0;
+
+  const submitPart = () => {
+    if (!canAddPart) return;
+    onChange(addTicketPart(ticket, { part: part.part.trim(), designator: part.designator.trim() || undefined, quantity }));
+    setPart({ part: '', designator: '', quantity: '1' });
+  };
+
+  const remove = () => {
+    if (window.confirm(`确定删除工单“${ticket.model}”吗？关联的诊断记录会保留在历史记录中。`)) onDelete(ticket.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="text-sm text-gray-500 hover:text-white transition-colors">← 返回工单列表</button>
+
+      <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6 space-y-4">
+        <div className="flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-white truncate">{ticket.model}</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              {[ticket.serialNumber && `SN ${ticket.serialNumber}`, ticket.customer, `接收 ${ticket.intakeDate}`].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className={`text-xs px-2 py-0.5 rounded border ${STATUS_BADGE[ticket.status]}`}>{TICKET_STATUS_LABELS[ticket.status]}</span>
+            <span className="flex items-center gap-1 text-xs text-gray-400"><IconClock className="w-3 h-3" />{ticketAgeDays(ticket)} 天</span>
+            <button onClick={remove} title="删除工单" className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-slate-700 transition-all"><IconTrash className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        {closed && (
+          <div className="p-3 bg-slate-900/60 border border-gray-700 rounded-xl text-sm text-gray-300 space-y-1">
+            <p>根因：<span className="text-white">{ticket.rootCause}</span></p>
+            <p>耗时：<span className="text-white">{ticket.timeSpentHours} 小时</span>{ticket.closedAt && <span className="text-gray-500"> · 关闭于 {formatTime(ticket.closedAt)}</span>}</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!closed && (
+            <button onClick={() => onDiagnose(ticket)} className="flex items-center gap-1 px-4 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm transition-all"><IconWrench className="w-4 h-4" /> 新建诊断</button>
+          )}
+          {nextStatuses(ticket.status).map(status => (
+            <button key={status} onClick={() => changeStatus(status)} className="px-4 py-2 rounded-xl border border-gray-700 text-sm text-gray-300 hover:border-circuit-teal hover:text-circuit-teal transition-all">
+              {closed ? '重新打开' : `转为${TICKET_STATUS_LABELS[status]}`}
+            </button>
+          ))}
+          {!closed && !isClosing && (
+            <button onClick={() => setIsClosing(true)} className="px-4 py-2 rounded-xl border border-gray-700 text-sm text-gray-300 hover:border-green-700 hover:text-green-400 transition-all">关闭工单</button>
+          )}
+        </div>
+
+        {isClosing && !closed && (
+          <CloseTicketForm ticket={ticket} records={records} onClose={(t) => { onChange(t); setIsClosing(false); }} onCancel={() => setIsClosing(false)} />
+        )}
+      </div>
+
+      <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6">
+        <SectionTitle>诊断记录 · {records.length}</SectionTitle>
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-500">尚未诊断。点击“新建诊断”描述故障现象，结果会自动归入本工单。</p>
+        ) : (
+          <div className="space-y-2">
+            {records.map(record => (
+              <div key={record.id} onClick={() => onOpenRecord(record)} className="bg-slate-900/60 border border-gray-700 p-3 rounded-xl hover:border-circuit-teal cursor-pointer transition-all">
+                <p className="text-[10px] text-gray-500">{formatTime(record.createdAt)}</p>
+                <p className="text-sm text-white line-clamp-2">{record.description || '（仅照片）'}</p>
+                {record.result.report && <p className="text-xs text-circuit-teal/80 truncate">诊断：{record.result.report.summary}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6">
+        <SectionTitle>更换元件 · {ticket.parts.length}</SectionTitle>
+        {ticket.parts.length > 0 && (
+          <table className="w-full text-sm mb-4">
+            <thead className="text-xs text-gray-500 text-left">
+              <tr><th className="py-1 font-medium">元件</th><th className="py-1 font-medium">位号</th><th className="py-1 font-medium">数量</th><th></th></tr>
+            </thead>
+            <tbody>
+              {ticket.parts.map(p => (
+                <tr key={p.id} className="border-t border-gray-700">
+                  <td className="py-2 text-white">{p.part}</td>
+                  <td className="py-2 text-gray-400">{p.designator || '-'}</td>
+                  <td className="py-2 text-gray-400">{p.quantity}</td>
+                  <td className="py-2 text-right">
+                    {!closed && <button onClick={() => onChange(removeTicketPart(ticket, p.id))} className="text-gray-500 hover:text-red-400"><IconX className="w-3 h-3" /></button>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {!closed && (
+          <div className="grid gap-2 grid-cols-[1fr_6rem_4rem_auto]">
+            <input value={part.part} onChange={(e) => setPart(prev => ({ ...prev, part: e.target.value }))} placeholder="元件名称/规格" className={inputClass} />
+            <input value={part.designator} onChange={(e) => setPart(prev => ({ ...prev, designator: e.target.value }))} placeholder="位号" className={inputClass} />
+            <input type="number" min="1" value={part.quantity} onChange={(e) => setPart(prev => ({ ...prev, quantity: e.target.value }))} className={inputClass} />
+            <button onClick={submitPart} disabled={!canAddPart} className="px-3 rounded-xl border border-gray-700 text-sm text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all">添加</button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6">
+        <SectionTitle>备注 · {ticket.notes.length}</SectionTitle>
+        <div className="space-y-2 mb-4">
+          {ticket.notes.map(n => (
+            <div key={n.id} className="text-sm">
+              <span className="text-[10px] text-gray-500 mr-2">{formatTime(n.createdAt)}</span>
+              <span className="text-gray-200 whitespace-pre-wrap">{n.text}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="记录处理进展、客户沟通、待办事项..." className={`${inputClass} h-16`} />
+          <button onClick={submitNote} disabled={!note.trim()} className="px-4 rounded-xl border border-gray-700 text-sm text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all">添加</button>
+        </div>
+      </div>
+
+      <div className="bg-slate-800 border border-gray-700 rounded-3xl p-6">
+        <SectionTitle>状态记录</SectionTitle>
+        <ol className="space-y-1 text-xs text-gray-400">
+          {ticket.statusHistory.map((change, i) => (
+            <li key={i}><span className="text-gray-500 mr-2">{formatTime(change.at)}</span>{TICKET_STATUS_LABELS[change.status]}</li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default TicketDetail;
\ No newline at end of file
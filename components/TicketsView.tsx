@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { IconClock, IconWrench, IconX } from './Icons';
+import { RepairTicket, TicketStatus } from '../types';
+import { CLOSED_STATUSES, OPEN_STATUSES, TICKET_STATUS_LABELS, createTicket, groupTicketsByStatus, ticketAgeDays } from '../services/ticketService';
+
+interface Props {
+  tickets: RepairTicket[];
+  onCreate: (ticket: RepairTicket) => void;
+  onOpen: (ticket: RepairTicket) => void;
+}
+
+export const STATUS_BADGE: Record<TicketStatus, string> = {
+  open: 'bg-slate-700 text-gray-200 border-gray-600',
+  in_progress: 'bg-blue-900/40 text-blue-300 border-blue-800',
+  waiting_parts: 'bg-yellow-900/40 text-yellow-300 border-yellow-800',
+  repaired: 'bg-green-900/40 text-green-400 border-green-800',
+  scrapped: 'bg-red-900/30 text-red-300 border-red-900',
+};
+
+// 超过一周标黄、超过两周标红，提醒积压
+const ageClass = (days: number) => (days >= 14 ? 'text-red-400' : days >= 7 ? 'text-yellow-400' : 'text-gray-400');
+
+const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+const NewTicketForm: React.FC<{ onCreate: (ticket: RepairTicket) => void; onCancel: () => void }> = ({ onCreate, onCancel }) => {
+  const [values, setValues] = useState({ model: '', serialNumber: '', customer: '', intakeDate: new Date().toISOString().slice(0, 10) });
+
+  const update = (field: keyof typeof values) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const canCreate = values.model.trim() && values.intakeDate;
+
+  const submit = () => {
+    if (!canCreate) return;
+    onCreate(createTicket({
+      model: values.model.trim(),
+      serialNumber: values.serialNumber.trim() || undefined,
+      customer: values.customer.trim() || undefined,
+      intakeDate: values.intakeDate,
+    }));
+  };
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-3xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">新建工单</h3>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block text-xs text-gray-400 space-y-1"><span>设备型号 *</span><input value={values.model} onChange={update('model')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>序列号</span><input value={values.serialNumber} onChange={update('serialNumber')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>客户</span><input value={values.customer} onChange={update('customer')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>接收日期 *</span><input type="date" value={values.intakeDate} onChange={update('intakeDate')} className={inputClass} /></label>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={submit} disabled={!canCreate} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">创建</button>
+      </div>
+    </div>
+  );
+};
+
+const TicketsView: React.FC<Props> = ({ tickets, onCreate, onOpen }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+
+  const groups = useMemo(() => groupTicketsByStatus(tickets), [tickets]);
+  const visibleStatuses = showClosed ? CLOSED_STATUSES : OPEN_STATUSES;
+
+  const create = (ticket: RepairTicket) => {
+    onCreate(ticket);
+    setIsCreating(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 grid-cols-2 sm:grid-cols-5">
+        {(Object.keys(TICKET_STATUS_LABELS) as TicketStatus[]).map(status => (
+          <div key={status} className={`rounded-2xl border p-4 ${STATUS_BADGE[status]}`}>
+            <p className="text-xs opacity-80">{TICKET_STATUS_LABELS[status]}</p>
+            <p className="text-2xl font-bold">{groups[status].length}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg">
+          <button onClick={() => setShowClosed(false)} className={`px-3 py-1 rounded-md text-xs transition-all ${!showClosed ? 'bg-slate-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}>未关闭</button>
+          <button onClick={() => setShowClosed(true)} className={`px-3 py-1 rounded-md text-xs transition-all ${showClosed ? 'bg-slate-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}>已关闭</button>
+        </div>
+        {!isCreating && (
+          <button onClick={() => setIsCreating(true)} className="px-4 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm transition-all">新建工单</button>
+        )}
+      </div>
+
+      {isCreating && <NewTicketForm onCreate={create} onCancel={() => setIsCreating(false)} />}
+
+      {visibleStatuses.every(status => groups[status].length === 0) ? (
+        <div className="bg-slate-800/50 border border-gray-700 rounded-3xl p-12 text-center">
+          <IconWrench className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-white mb-2">{showClosed ? '暂无已关闭的工单' : '暂无进行中的工单'}</h3>
+          <p className="text-gray-400 text-sm">为每台送修设备建立工单，跟踪多次诊断、备注、更换的元件直至修复或报废。</p>
+        </div>
+      ) : (
+        visibleStatuses.map(status => groups[status].length > 0 && (
+          <div key={status} className="space-y-2">
+            <h4 className="text-xs font-bold text-gray-500 uppercase">{TICKET_STATUS_LABELS[status]} · {groups[status].length}</h4>
+            {[...groups[status]].sort((a, b) => ticketAgeDays(b) - ticketAgeDays(a)).map(ticket => {
+              const age = ticketAgeDays(ticket);
+              return (
+                <div key={ticket.id} onClick={() => onOpen(ticket)} className="bg-slate-800 border border-gray-700 p-4 rounded-2xl hover:border-circuit-teal cursor-pointer group transition-all flex justify-between items-center gap-4">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-medium group-hover:text-circuit-teal transition-colors truncate">
+                      {ticket.model}
+                      {ticket.serialNumber && <span className="ml-2 text-xs text-gray-500">SN {ticket.serialNumber}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {[ticket.customer, `接收 ${ticket.intakeDate}`, `${ticket.diagnosisIds.length} 次诊断`, ticket.rootCause && `根因：${ticket.rootCause}`].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <span className={`flex items-center gap-1 text-xs flex-shrink-0 ${ageClass(showClosed ? 0 : age)}`}><IconClock className="w-3 h-3" />{age} 天</span>
+                </div>
+              );
+            })}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default TicketsView;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import { IconAlert, IconCamera, IconRefresh, IconX } from './Icons';
+import { ChecklistStep, StepStatus } from '../types';
+import { isContradicting } from '../services/checklistService';
+import { prepareImageFile } from '../services/imageService';
+
+interface Props {
+  steps: ChecklistStep[];
+  /** 传入更新函数而非新数组，异步完成的照片不会覆盖期间填写的实测值 */
+  onChange: (update: (steps: ChecklistStep[]) => ChecklistStep[]) => void;
+  onError: (message: string) => void;
+  onRequestRevision: () => void;
+}
+
+const STATUS_OPTIONS: { value: StepStatus; label: string; active: string }[] = [
+  { value: 'pass', label: '通过', active: 'bg-green-900/60 text-green-300 border-green-700' },
+  { value: 'fail', label: '不通过', active: 'bg-red-900/60 text-red-300 border-red-700' },
+  { value: 'skipped', label: '跳过', active: 'bg-slate-600 text-gray-200 border-gray-500' },
+];
+
+const WorkModeChecklist: React.FC<Props> = ({ steps, onChange, onError, onRequestRevision }) => {
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoTargetRef = useRef<string | null>(null);
+
+  const updateStep = (id: string, patch: Partial<ChecklistStep>) => {
+    onChange(prev => prev.map(step => (step.id === id ? { ...step, ...patch } : step)));
+  };
+
+  const pickPhoto = (id: string) => {
+    photoTargetRef.current = id;
+    photoInputRef.current?.click();
+  };
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const targetId = photoTargetRef.current;
+    if (!file || !targetId || !file.type.startsWith('image/')) return;
+    prepareImageFile(file)
+      .then(photo => updateStep(targetId, { photo }))
+      .catch(() => onError('照片读取失败，请重试'));
+    if (photoInputRef.current) photoInputRef.current.value = '';
+  };
+
+  const finished = steps.filter(s => s.status !== 'pending').length;
+  const contradictions = steps.filter(isContradicting);
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-500">当前方案中未识别到可执行的检测步骤。</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>进度 {finished}/{steps.length}</span>
+        <div className="flex-grow mx-4 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-circuit-teal transition-all" style={{ width: `${(finished / steps.length) * 100}%` }}></div>
+        </div>
+      </div>
+
+      {contradictions.length > 0 && (
+        <div className="p-4 bg-yellow-900/20 border border-yellow-800 rounded-xl text-yellow-200 text-sm flex flex-wrap items-center gap-3">
+          <IconAlert className="w-5 h-5 flex-shrink-0" />
+          <span className="flex-grow">有 {contradictions.length} 项测量结果与预期不符，可将实测记录提交给 AI 重新诊断。</span>
+          <button onClick={onRequestRevision} className="flex items-center gap-1 px-3 py-1.5 bg-yellow-600 hover:bg-yellow-500 text-slate-900 rounded-lg font-bold text-xs transition-all"><IconRefresh className="w-3 h-3" /> 重新诊断</button>
+        </div>
+      )}
+
+      <input type="file" ref={photoInputRef} accept="image/*" capture="environment" className="hidden" onChange={handlePhotoSelect} />
+
+      <ol className="space-y-3">
+        {steps.map(step => {
+          const contradicting = isContradicting(step);
+          return (
+            <li key={step.id} className={`bg-slate-900/50 border rounded-xl p-4 space-y-3 ${contradicting ? 'border-yellow-700' : step.status === 'pass' ? 'border-green-900' : 'border-gray-700'}`}>
+              <div className="flex justify-between gap-3">
+                <div className="text-sm">
+                  <p className="text-white">{step.order}. {step.action}</p>
+                  {(step.testPoint || step.expected) && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {step.testPoint && <span>测试点：<span className="font-mono text-gray-300">{step.testPoint}</span></span>}
+                      {step.testPoint && step.expected && <span className="mx-2">·</span>}
+                      {step.expected && <span>预期：<span className="font-mono text-circuit-teal">{step.expected}</span></span>}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1 flex-shrink-0 h-fit">
+                  {STATUS_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => updateStep(step.id, { status: step.status === option.value ? 'pending' : option.value })}
+                      className={`text-[11px] px-2 py-1 rounded-md border transition-all ${step.status === option.value ? option.active : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                    >{option.label}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 items-center">
+                <input
+                  value={step.measured || ''}
+                  onChange={(e) => updateStep(step.id, { measured: e.target.value })}
+                  placeholder="实测值，如 4.2V / 0.3Ω"
+                  className={`w-44 bg-slate-900 border rounded-lg px-3 py-1.5 text-xs font-mono text-white outline-none focus:ring-1 focus:ring-circuit-teal ${contradicting ? 'border-yellow-700' : 'border-gray-700'}`}
+                />
+                <input
+                  value={step.note || ''}
+                  onChange={(e) => updateStep(step.id, { note: e.target.value })}
+                  placeholder="备注（波形、现象…）"
+                  className="flex-grow min-w-[140px] bg-slate-900 border border-gray-700 rounded-lg px-3 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-circuit-teal"
+                />
+                {step.photo ? (
+                  <div className="relative w-10 h-10 rounded-lg overflow-hidden border border-gray-700 group">
+                    <img src={`data:${step.photo.mimeType};base64,${step.photo.data}`} alt="measurement" className="w-full h-full object-cover" />
+                    <button onClick={() => updateStep(step.id, { photo: undefined })} className="absolute inset-0 bg-black/60 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"><IconX className="w-3 h-3" /></button>
+                  </div>
+                ) : (
+                  <button onClick={() => pickPhoto(step.id)} title="附加照片" className="p-2 rounded-lg border border-gray-700 text-gray-500 hover:text-circuit-teal hover:border-circuit-teal transition-all"><IconCamera className="w-4 h-4" /></button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default WorkModeChecklist;
\ No newline at end of file
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { IconX } from './Icons';
+import { ImageAttachment, RepairAnalysis, WorkOrderInfo } from '../types';
+import { downloadWorkOrder, printWorkOrder } from '../services/workOrderService';
+
+interface Props {
+  description: string;
+  images: ImageAttachment[];
+  result: RepairAnalysis;
+  /** 上次导出时填写的抬头，重新导出时沿用 */
+  initial?: WorkOrderInfo;
+  onExport?: (info: WorkOrderInfo) => void;
+  onCancel: () => void;
+}
+
+// 未导出过且没有关联工单时由技术员填写设备（参考案例是其他设备，不能拿来预填），日期取今天
+const initialValues = (initial?: WorkOrderInfo): WorkOrderInfo => initial || {
+  device: '',
+  serialNumber: '',
+  ticketId: '',
+  technician: '',
+  date: new Date().toISOString().slice(0, 10),
+};
+
+const WorkOrderForm: React.FC<Props> = ({ description, images, result, initial, onExport, onCancel }) => {
+  const [values, setValues] = useState<WorkOrderInfo>(() => initialValues(initial));
+  const [popupBlocked, setPopupBlocked] = useState(false);
+
+  const update = (field: keyof WorkOrderInfo) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const canExport = values.device.trim() && values.date;
+
+  const normalized = (): WorkOrderInfo => ({
+    device: values.device.trim(),
+    serialNumber: values.serialNumber?.trim() || undefined,
+    ticketId: values.ticketId?.trim() || undefined,
+    technician: values.technician?.trim() || undefined,
+    date: values.date,
+  });
+
+  const exportAs = (mode: 'print' | 'download') => {
+    if (!canExport) return;
+    const info = normalized();
+    const content = { info, description, images, result };
+    if (mode === 'print') {
+      const opened = printWorkOrder(content);
+      setPopupBlocked(!opened);
+      if (!opened) return;
+    } else {
+      downloadWorkOrder(content);
+    }
+    onExport?.(info);
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-circuit-teal';
+
+  return (
+    <div className="bg-slate-800 border border-circuit-teal/40 rounded-3xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">导出维修工单</h3>
+        <button onClick={onCancel} className="text-gray-500 hover:text-white"><IconX className="w-4 h-4" /></button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <label className="block text-xs text-gray-400 space-y-1"><span>设备 / 型号 *</span><input value={values.device} onChange={update('device')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>序列号</span><input value={values.serialNumber || ''} onChange={update('serialNumber')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>客户 / 工单号</span><input value={values.ticketId || ''} onChange={update('ticketId')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>维修人员</span><input value={values.technician || ''} onChange={update('technician')} className={inputClass} /></label>
+        <label className="block text-xs text-gray-400 space-y-1"><span>日期 *</span><input type="date" value={values.date} onChange={update('date')} className={inputClass} /></label>
+      </div>
+      <p className="text-xs text-gray-500">工单包含故障描述、{images.length > 0 ? `${images.length} 张故障照片、` : ''}诊断方案、参考资源及签字栏，完全在本地生成。</p>
+      {popupBlocked && <p className="text-xs text-red-400">打印窗口被浏览器拦截，请允许弹出窗口，或改用“下载工单”后再打印。</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={() => exportAs('download')} disabled={!canExport} className="text-sm px-4 py-2 rounded-xl border border-gray-700 text-gray-300 hover:border-circuit-teal hover:text-circuit-teal disabled:opacity-40 transition-all">下载工单</button>
+        <button onClick={() => exportAs('print')} disabled={!canExport} className="px-5 py-2 bg-circuit-teal hover:bg-teal-400 text-slate-900 rounded-xl font-bold text-sm disabled:opacity-40 transition-all">打印 / 另存 PDF</button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkOrderForm;
\ No newline at end of file
@@ -0,0 +1,274 @@
+import * as XLSX from "xlsx";
+import { DiagnosisRecord, LibraryItem, RepairTicket } from "../types";
+
+// 维修统计：把案例库条目和诊断历史统一成“案例事实”，再按型号、分类、现象、元件和月份汇总。
+// 全部在本机计算，不依赖外部服务。
+export type CaseSource = "library" | "history";
+
+export interface CaseFact {
+  id: string;
+  source: CaseSource;
+  model: string;
+  category: string;
+  symptoms: string[];
+  /** 故障元件：案例库取登记的根因；诊断历史优先取已关闭工单的根因，否则取首个可疑元件 */
+  component?: string;
+  /** component 是否经实际维修确认 */
+  componentConfirmed: boolean;
+  /** YYYY-MM，日期无法识别时为空 */
+  period?: string;
+  /** 是否为 AI 方案且已有维修结论，计入确认率的分母 */
+  aiDecided: boolean;
+  /** AI 方案是否被实际维修确认 */
+  aiConfirmed: boolean;
+}
+
+export interface CountRow {
+  label: string;
+  count: number;
+  /** 占筛选后案例总数的比例 */
+  share: number;
+  /** 其中故障元件已确认的案例数 */
+  confirmed: number;
+}
+
+export interface RecurringFailure {
+  model: string;
+  component: string;
+  count: number;
+  confirmed: number;
+  lastPeriod?: string;
+}
+
+export interface PeriodRow {
+  period: string;
+  count: number;
+  aiDecided: number;
+  aiConfirmed: number;
+}
+
+export interface RepairAnalytics {
+  total: number;
+  byModel: CountRow[];
+  byCategory: CountRow[];
+  bySymptom: CountRow[];
+  byComponent: CountRow[];
+  byPeriod: PeriodRow[];
+  topFailures: RecurringFailure[];
+  aiDecided: number;
+  aiConfirmed: number;
+}
+
+export interface AnalyticsFilter {
+  source: "all" | CaseSource;
+  model?: string;
+  /** 只统计最近 N 个月，缺省为全部 */
+  months?: number;
+}
+
+export const UNKNOWN_MODEL = "未登记型号";
+export const UNKNOWN_CATEGORY = "未分类";
+export const UNKNOWN_PERIOD = "日期未知";
+const TOP_FAILURE_LIMIT = 10;
+
+/** 常见故障现象词表；同一组内的写法归并到第一个词 */
+const SYMPTOM_GROUPS: string[][] = [
+  ["不开机", "无法开机", "开不了机", "不启动", "无法启动"],
+  ["无输出", "没有输出", "无电压输出"],
+  ["输出电压低", "电压偏低", "电压低", "欠压"],
+  ["输出电压高", "电压偏高", "过压"],
+  ["短路", "对地短路"],
+  ["烧毁", "烧坏", "冒烟", "炸机", "烧焦"],
+  ["保险丝熔断", "烧保险", "保险丝断", "保险管熔断"],
+  ["过热", "发热", "发烫", "温度高"],
+  ["过流", "过流保护", "电流大"],
+  ["反复重启", "重启", "自动重启"],
+  ["死机", "卡死", "无响应", "无反应"],
+  ["报错", "故障码", "报警"],
+  ["异响", "啸叫", "噪音", "噪声"],
+  ["纹波大", "纹波"],
+  ["无显示", "黑屏", "不显示"],
+  ["闪烁", "闪屏"],
+  ["指示灯不亮", "灯不亮"],
+  ["不充电", "充不进电", "无法充电"],
+  ["电机不转", "不转", "堵转"],
+  ["抖动", "振动", "丢步"],
+  ["通讯异常", "通信故障", "无法通讯", "通讯失败"],
+  ["漏电", "跳闸"],
+  ["进水", "腐蚀"],
+];
+
+export const extractSymptoms = (text: string): string[] => {
+  const normalized = text.toLowerCase();
+  return SYMPTOM_GROUPS.filter(group => group.some(word => normalized.includes(word))).map(group => group[0]);
+};
+
+/** 识别 2024-05-12、2024/5/12、2024.5、2024年5月 等写法 */
+export const toPeriod = (value?: string | number): string | undefined => {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  }
+  const match = value.match(/(\d{4})\s*[-/.年]\s*(\d{1,2})/);
+  if (!match) return undefined;
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? `${match[1]}-${String(month).padStart(2, "0")}` : undefined;
+};
+
+/** 元件名称归并：忽略大小写与空格 */
+const componentKey = (value: string) => value.toLowerCase().replace(/\s+/g, "");
+
+const formatComponent = (component?: { designator?: string; part: string }) =>
+  component ? [component.designator, component.part].filter(Boolean).join(" ") : undefined;
+
+/** 工单根因是否提到了 AI 报告中的某个可疑元件（位号或名称） */
+const mentionsSuspect = (rootCause: string, record: DiagnosisRecord) => {
+  const key = componentKey(rootCause);
+  return (record.result.report?.suspectedComponents || []).some(c =>
+    (c.designator && key.includes(componentKey(c.designator))) || key.includes(componentKey(c.part))
+  );
+};
+
+const libraryFact = (item: LibraryItem): CaseFact => ({
+  id: item.id,
+  source: "library",
+  model: item.model || item.name || UNKNOWN_MODEL,
+  category: item.category || UNKNOWN_CATEGORY,
+  symptoms: extractSymptoms(item.description),
+  component: item.rootCause || undefined,
+  componentConfirmed: !!item.rootCause && !!item.verified,
+  period: toPeriod(item.date),
+  aiDecided: !!item.aiAssisted,
+  aiConfirmed: !!item.aiAssisted && !!item.verified,
+});
+
+const historyFact = (record: DiagnosisRecord, ticket?: RepairTicket): CaseFact => {
+  const closedRootCause = ticket?.closedAt ? ticket.rootCause : undefined;
+  const suspected = formatComponent(record.result.report?.suspectedComponents[0]);
+  // 只有工单以“已修复”关闭时才能判断 AI 方案是否正确；报废或仍在维修的不计入确认率
+  const decided = ticket?.status === "repaired" && !!closedRootCause;
+  return {
+    id: record.id,
+    source: "history",
+    model: ticket?.model || record.workOrder?.device || UNKNOWN_MODEL,
+    category: UNKNOWN_CATEGORY,
+    symptoms: extractSymptoms(record.description),
+    component: closedRootCause || suspected,
+    componentConfirmed: !!closedRootCause,
+    period: toPeriod(record.createdAt),
+    aiDecided: decided,
+    aiConfirmed: decided && mentionsSuspect(closedRootCause!, record),
+  };
+};
+
+export const buildCaseFacts = (library: LibraryItem[], history: DiagnosisRecord[], tickets: RepairTicket[]): CaseFact[] => {
+  const ticketById = new Map(tickets.map(t => [t.id, t]));
+  // 已存入案例库的诊断记录只按案例库条目计一次
+  const savedRecordIds = new Set(library.map(item => item.sourceRecordId).filter(Boolean));
+  return [
+    ...library.map(libraryFact),
+    ...history.filter(record => !savedRecordIds.has(record.id)).map(record => historyFact(record, record.ticketId ? ticketById.get(record.ticketId) : undefined)),
+  ];
+};
+
+const periodMonthsAgo = (months: number, now: Date) => {
+  const date = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export const filterFacts = (facts: CaseFact[], filter: AnalyticsFilter, now = new Date()): CaseFact[] => {
+  const since = filter.months ? periodMonthsAgo(filter.months, now) : undefined;
+  return facts.filter(fact => {
+    if (filter.source !== "all" && fact.source !== filter.source) return false;
+    if (filter.model && fact.model !== filter.model) return false;
+    // 限定时间段时，日期未知的案例无法判断，一并排除
+    if (since && (!fact.period || fact.period < since)) return false;
+    return true;
+  });
+};
+
+/** 按 key 计数，label 取该组第一次出现的写法 */
+const countBy = (facts: CaseFact[], keysOf: (fact: CaseFact) => string[], normalize = (key: string) => key): CountRow[] => {
+  const groups = new Map<string, CountRow>();
+  facts.forEach(fact => {
+    new Set(keysOf(fact)).forEach(label => {
+      const key = normalize(label);
+      const row = groups.get(key) || { label, count: 0, share: 0, confirmed: 0 };
+      row.count++;
+      if (fact.componentConfirmed) row.confirmed++;
+      groups.set(key, row);
+    });
+  });
+  return Array.from(groups.values())
+    .map(row => ({ ...row, share: facts.length ? row.count / facts.length : 0 }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, "zh-CN"));
+};
+
+export const buildAnalytics = (facts: CaseFact[]): RepairAnalytics => {
+  const periods = new Map<string, PeriodRow>();
+  facts.forEach(fact => {
+    const period = fact.period || UNKNOWN_PERIOD;
+    const row = periods.get(period) || { period, count: 0, aiDecided: 0, aiConfirmed: 0 };
+    row.count++;
+    if (fact.aiDecided) row.aiDecided++;
+    if (fact.aiConfirmed) row.aiConfirmed++;
+    periods.set(period, row);
+  });
+
+  // 同一型号上重复出现的故障元件，至少出现两次才算“反复故障”
+  const failures = new Map<string, RecurringFailure>();
+  facts.forEach(fact => {
+    if (!fact.component) return;
+    const key = `${fact.model}\u0000${componentKey(fact.component)}`;
+    const row = failures.get(key) || { model: fact.model, component: fact.component, count: 0, confirmed: 0 };
+    row.count++;
+    if (fact.componentConfirmed) row.confirmed++;
+    if (fact.period && (!row.lastPeriod || fact.period > row.lastPeriod)) row.lastPeriod = fact.period;
+    failures.set(key, row);
+  });
+
+  return {
+    total: facts.length,
+    byModel: countBy(facts, f => [f.model]),
+    byCategory: countBy(facts, f => [f.category]),
+    bySymptom: countBy(facts, f => f.symptoms),
+    byComponent: countBy(facts, f => (f.component ? [f.component] : []), componentKey),
+    byPeriod: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    topFailures: Array.from(failures.values())
+      .filter(row => row.count >= 2)
+      .sort((a, b) => b.count - a.count || b.confirmed - a.confirmed)
+      .slice(0, TOP_FAILURE_LIMIT),
+    aiDecided: facts.filter(f => f.aiDecided).length,
+    aiConfirmed: facts.filter(f => f.aiConfirmed).length,
+  };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const countRows = (rows: CountRow[], header: string) =>
+  rows.map(row => ({ [header]: row.label, 案例数: row.count, 占比: percent(row.share), 根因已确认: row.confirmed }));
+
+/** 每项汇总对应工作簿中的一张表，统计界面的单项导出与整体导出共用 */
+export const analyticsSheets = (analytics: RepairAnalytics): Record<string, Record<string, string | number>[]> => ({
+  反复故障: analytics.topFailures.map(row => ({ 型号: row.model, 故障元件: row.component, 次数: row.count, 已确认: row.confirmed, 最近月份: row.lastPeriod || "" })),
+  按型号: countRows(analytics.byModel, "型号"),
+  按分类: countRows(analytics.byCategory, "分类"),
+  按现象: countRows(analytics.bySymptom, "故障现象"),
+  按元件: countRows(analytics.byComponent, "故障元件"),
+  按月份: analytics.byPeriod.map(row => ({
+    月份: row.period,
+    案例数: row.count,
+    "AI 方案有结论": row.aiDecided,
+    "AI 方案确认": row.aiConfirmed,
+    确认率: row.aiDecided ? percent(row.aiConfirmed / row.aiDecided) : "",
+  })),
+});
+
+export const exportAnalyticsToXlsx = (analytics: RepairAnalytics, only?: string) => {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(analyticsSheets(analytics))
+    .filter(([name]) => !only || name === only)
+    .forEach(([name, rows]) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name));
+  XLSX.writeFile(workbook, `维修统计${only ? `-${only}` : ""}-${new Date().toISOString().slice(0, 10)}.xlsx`);
+};
\ No newline at end of file
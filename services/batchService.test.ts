@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { RepairAnalysis } from "../types";
+import { BatchJob, parseProgress, progressLine, runBatch } from "./batchService";
+import { DiagnosisError } from "./errorService";
+
+const jobs: BatchJob[] = [
+  { key: "RMA-1", rowNumber: 2, description: "开机无输出" },
+  { key: "RMA-2", rowNumber: 3, description: "风扇异响" },
+  { key: "RMA-3", rowNumber: 4, description: "屏幕闪烁" },
+];
+
+const analysisOf = (job: BatchJob): RepairAnalysis => ({ diagnosis: `结论：${job.description}`, rawText: job.description, sources: [] });
+
+describe("runBatch 断点续跑", () => {
+  it("失败的行写入进度后，续跑只重新诊断未完成的行", async () => {
+    // 第一次运行：第二行网络失败，每完成一行追加一条进度
+    let progress = "";
+    await runBatch(jobs, async job => {
+      if (job.key === "RMA-2") throw new DiagnosisError("network");
+      return analysisOf(job);
+    }, { concurrency: 1, onResult: result => { progress += `${progressLine(result)}\n`; } });
+
+    // 模拟写入进度时被中断的最后一行
+    const done = parseProgress(`${progress}{"key":"RMA-`);
+    expect(Array.from(done.keys())).toEqual(["RMA-1", "RMA-3"]);
+
+    const diagnosed: string[] = [];
+    const results = await runBatch(jobs.filter(job => !done.has(job.key)), async job => {
+      diagnosed.push(job.key);
+      return analysisOf(job);
+    });
+    expect(diagnosed).toEqual(["RMA-2"]);
+    expect(results.map(r => [r.key, r.status])).toEqual([["RMA-2", "done"]]);
+  });
+
+  it("鉴权失败时停止启动后续的行", async () => {
+    const results = await runBatch(jobs, async () => {
+      throw new DiagnosisError("auth");
+    }, { concurrency: 1 });
+    expect(results).toHaveLength(1);
+    expect(results[0].error?.category).toBe("auth");
+  });
+});
\ No newline at end of file
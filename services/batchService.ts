@@ -0,0 +1,195 @@
+import { RepairAnalysis } from "../types";
+import { COLUMN_ALIASES, ImportSheet } from "./libraryService";
+import { ErrorCategory, classifyError } from "./errorService";
+import { componentLabel } from "./comparisonService";
+
+// 批量诊断：把 RMA 系统导出的故障清单逐行交给诊断引擎，限制并发，
+// 每完成一行就回调一次，便于调用方把进度落盘、中断后从断点继续。
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 8;
+/** 鉴权失败时后续各行必然同样失败，直接停止整批任务 */
+const FATAL_CATEGORIES: ErrorCategory[] = ["auth"];
+
+/** 工单号列的常见写法，用作断点续跑时识别已完成行的键 */
+const ID_ALIASES = ["id", "编号", "单号", "工单号", "rma", "rma号", "rma单号", "ticket"];
+
+export interface BatchColumns {
+  description: string;
+  model?: string;
+  id?: string;
+}
+
+export interface BatchJob {
+  key: string;
+  /** 表格中的行号（含表头，从 1 开始）；JSON 输入为数组下标 + 1 */
+  rowNumber: number;
+  description: string;
+  model?: string;
+}
+
+export type BatchStatus = "done" | "error";
+
+export interface BatchResult {
+  key: string;
+  rowNumber: number;
+  status: BatchStatus;
+  result?: RepairAnalysis;
+  error?: { category: ErrorCategory; message: string };
+  finishedAt: number;
+}
+
+const findColumn = (headers: string[], aliases: string[]) => headers.find(h => aliases.includes(h.trim().toLowerCase()));
+
+/** 按列名识别故障描述、型号和工单号列；找不到描述列时返回 undefined */
+export const guessBatchColumns = (headers: string[], overrides: Partial<BatchColumns> = {}): BatchColumns | undefined => {
+  const description = overrides.description || findColumn(headers, COLUMN_ALIASES.description);
+  if (!description) return undefined;
+  return {
+    description,
+    model: overrides.model || findColumn(headers, COLUMN_ALIASES.model),
+    id: overrides.id || findColumn(headers, ID_ALIASES),
+  };
+};
+
+/** sheet_to_json 会跳过空行，行号取 xlsx 记录的 __rowNum__（从 0 开始） */
+const rowNumberOf = (row: Record<string, any>, index: number) =>
+  typeof row.__rowNum__ === "number" ? row.__rowNum__ + 1 : index + 2;
+
+/** 把表格行转换为诊断任务；缺少故障描述的行只返回行号，不参与诊断 */
+export const jobsFromSheet = (sheet: ImportSheet, columns: BatchColumns): { jobs: BatchJob[]; skipped: number[] } => {
+  const jobs: BatchJob[] = [];
+  const skipped: number[] = [];
+  const seen = new Set<string>();
+  sheet.rows.forEach((row, index) => {
+    const rowNumber = sheet.name === "JSON" ? index + 1 : rowNumberOf(row, index);
+    const read = (column?: string) => (column && row[column] !== undefined && row[column] !== null ? String(row[column]).trim() : "");
+    const description = read(columns.description);
+    if (!description) {
+      skipped.push(rowNumber);
+      return;
+    }
+    const id = read(columns.id);
+    // 工单号重复或缺失时退回行号，保证键唯一
+    const key = id && !seen.has(id) ? id : `#${rowNumber}`;
+    seen.add(key);
+    jobs.push({ key, rowNumber, description, model: read(columns.model) || undefined });
+  });
+  return { jobs, skipped };
+};
+
+/** 并发上限为 n 的执行队列，批量诊断与 HTTP 接口共用 */
+export const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) await new Promise<void>(resolve => waiting.push(resolve));
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+};
+
+export interface BatchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** 每行完成（成功或失败）后调用 */
+  onResult?: (result: BatchResult, finished: number) => void;
+}
+
+/**
+ * 依次诊断各行，最多 concurrency 行同时进行。单行失败只记录错误，不影响其他行；
+ * 遇到鉴权失败或 signal 中止时不再启动新的行，已在进行中的行照常完成。
+ */
+export const runBatch = async (
+  jobs: BatchJob[],
+  diagnose: (job: BatchJob) => Promise<RepairAnalysis>,
+  options: BatchOptions = {}
+): Promise<BatchResult[]> => {
+  const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(options.concurrency || DEFAULT_CONCURRENCY)));
+  const limit = createLimiter(concurrency);
+  const results: BatchResult[] = [];
+  let stopped = false;
+
+  await Promise.all(jobs.map(job => limit(async () => {
+    if (stopped || options.signal?.aborted) return;
+    let result: BatchResult;
+    try {
+      result = { key: job.key, rowNumber: job.rowNumber, status: "done", result: await diagnose(job), finishedAt: Date.now() };
+    } catch (err) {
+      const info = classifyError(err);
+      if (FATAL_CATEGORIES.includes(info.category)) stopped = true;
+      result = { key: job.key, rowNumber: job.rowNumber, status: "error", error: { category: info.category, message: info.message }, finishedAt: Date.now() };
+    }
+    results.push(result);
+    options.onResult?.(result, results.length);
+  })));
+
+  return results;
+};
+
+// ---------------- 进度与结果 ----------------
+
+/** 进度文件每行一条 JSON，中断时最多丢失正在写入的一行 */
+export const progressLine = (result: BatchResult) => JSON.stringify(result);
+
+/** 读取进度文件中已成功的行；失败的行在续跑时重新诊断 */
+export const parseProgress = (text: string): Map<string, BatchResult> => {
+  const done = new Map<string, BatchResult>();
+  text.split("\n").forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const result = JSON.parse(line) as BatchResult;
+      if (result?.key && result.status === "done" && result.result) done.set(result.key, result);
+    } catch {
+      // 最后一行可能在写入时被中断，忽略
+    }
+  });
+  return done;
+};
+
+/** 追加到原表格的列 */
+export const RESULT_HEADERS = ["AI诊断结论", "可能原因", "可疑元件", "检测步骤", "参考案例", "诊断状态"];
+
+export const resultToColumns = (entry?: BatchResult): string[] => {
+  if (!entry) return ["", "", "", "", "", "未诊断"];
+  if (entry.status === "error" || !entry.result) return ["", "", "", "", "", `失败：${entry.error?.message || "未知错误"}`];
+  const { result } = entry;
+  const report = result.report;
+  return [
+    report?.summary || result.diagnosis,
+    (report?.probableCauses || []).map(c => `${c.cause}（${Math.round(c.likelihood * 100)}%）`).join("\n"),
+    (report?.suspectedComponents || []).map(componentLabel).join("、"),
+    (report?.testSteps || []).map(s => `${s.order}. ${s.action}${s.expected ? ` → ${s.expected}` : ""}`).join("\n"),
+    (result.references || []).map(r => r.item.model || r.item.name).join("、"),
+    report ? "已诊断" : "已诊断（无结构化报告）",
+  ];
+};
+
+export interface BatchReport {
+  generatedAt: string;
+  provider: string;
+  model: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: (BatchJob & { status: BatchStatus | "pending"; result?: RepairAnalysis; error?: BatchResult["error"] })[];
+}
+
+export const buildBatchReport = (jobs: BatchJob[], results: Map<string, BatchResult>, meta: { provider: string; model: string }): BatchReport => {
+  const rows = jobs.map(job => {
+    const entry = results.get(job.key);
+    return { ...job, status: entry?.status || ("pending" as const), result: entry?.result, error: entry?.error };
+  });
+  return {
+    generatedAt: new Date().toISOString(),
+    ...meta,
+    total: jobs.length,
+    succeeded: rows.filter(r => r.status === "done").length,
+    failed: rows.filter(r => r.status === "error").length,
+    results: rows,
+  };
+};
\ No newline at end of file
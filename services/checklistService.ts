@@ -0,0 +1,109 @@
+import { ChecklistStep, RepairAnalysis } from "../types";
+
+// 工作模式：把维修方案拆成可逐项勾选的检测清单，并比对实测值与预期值
+const NUMBERED_LINE = /^\s*(\d+)[.)、]\s+(.+)$/;
+const BULLET_LINE = /^\s*[-*]\s+(.+)$/;
+const EXPECTED_HINT = /(?:应为|应在|正常值?(?:为|应为)?|预期(?:值)?(?:为)?|约为?)\s*[:：]?\s*([^，。；;,\n]+)/;
+
+const cleanInline = (text: string) => text.replace(/\*\*/g, "").replace(/`/g, "").trim();
+
+const toStep = (order: number, action: string, expected?: string, testPoint?: string): ChecklistStep => ({
+  id: `step-${order}-${Math.random().toString(36).slice(2, 8)}`,
+  order,
+  action,
+  testPoint,
+  expected,
+  status: "pending",
+});
+
+/** 优先使用结构化报告中的检测步骤；没有时从 Markdown 的编号/项目符号行中提取 */
+export const buildChecklist = (analysis: RepairAnalysis): ChecklistStep[] => {
+  if (analysis.report && analysis.report.testSteps.length > 0) {
+    return analysis.report.testSteps.map((step, i) => toStep(i + 1, step.action, step.expected, step.testPoint));
+  }
+
+  const lines = analysis.rawText.split("\n");
+  let candidates = lines.map(line => line.match(NUMBERED_LINE)?.[2]).filter((v): v is string => !!v);
+  if (candidates.length === 0) {
+    candidates = lines.map(line => line.match(BULLET_LINE)?.[1]).filter((v): v is string => !!v);
+  }
+
+  return candidates.map((raw, i) => {
+    const action = cleanInline(raw);
+    return toStep(i + 1, action, action.match(EXPECTED_HINT)?.[1]?.trim());
+  });
+};
+
+const UNIT_SCALE: Record<string, number> = { p: 1e-12, n: 1e-9, u: 1e-6, "μ": 1e-6, m: 1e-3, k: 1e3, K: 1e3, M: 1e6 };
+const QUANTITY = /(-?\d+(?:\.\d+)?)\s*([pnuμmkKM]?)(v|a|Ω|ohm|欧|hz|f|w)?/i;
+
+interface Quantity { value: number; unit?: string }
+
+const parseQuantity = (text: string): Quantity | null => {
+  const m = text.match(QUANTITY);
+  if (!m) return null;
+  const unit = m[3]?.toLowerCase().replace("ohm", "Ω").replace("欧", "Ω");
+  // 单独的 "m"/"M" 后没有单位时不当作数量级前缀
+  const scale = unit ? UNIT_SCALE[m[2]] || 1 : 1;
+  return { value: parseFloat(m[1]) * scale, unit };
+};
+
+const parseRange = (text: string): [Quantity, Quantity] | null => {
+  const parts = text.split(/\s*(?:~|～|-|—|至|到)\s*(?=\d)/);
+  if (parts.length !== 2) return null;
+  const low = parseQuantity(parts[0]);
+  const high = parseQuantity(parts[1]);
+  if (!low || !high) return null;
+  // "4.8-5.2V" 这类写法只在上限后带单位
+  if (!low.unit && high.unit) {
+    const lowWithUnit = parseQuantity(`${parts[0]}${high.unit}`);
+    return lowWithUnit ? [lowWithUnit, high] : null;
+  }
+  return [low, high];
+};
+
+const TOLERANCE = 0.1;
+
+/** 判断实测值是否与预期矛盾；无法解析为数值时只看步骤是否被标记为不通过 */
+export const isContradicting = (step: ChecklistStep): boolean => {
+  if (step.status === "fail") return true;
+  if (!step.measured || !step.expected) return false;
+
+  const measured = parseQuantity(step.measured);
+  if (!measured) return false;
+
+  const range = parseRange(step.expected);
+  if (range) {
+    const [low, high] = range;
+    if (measured.unit && high.unit && measured.unit !== high.unit) return false;
+    return measured.value < Math.min(low.value, high.value) || measured.value > Math.max(low.value, high.value);
+  }
+
+  const expected = parseQuantity(step.expected);
+  if (!expected) return false;
+  if (measured.unit && expected.unit && measured.unit !== expected.unit) return false;
+  if (expected.value === 0) return Math.abs(measured.value) > TOLERANCE;
+  return Math.abs(measured.value - expected.value) / Math.abs(expected.value) > TOLERANCE;
+};
+
+const STATUS_LABEL: Record<ChecklistStep["status"], string> = {
+  pending: "未执行",
+  pass: "通过",
+  fail: "不通过",
+  skipped: "跳过",
+};
+
+/** 把已记录的检测结果整理成文字，附在故障描述后重新诊断 */
+export const formatMeasurementLog = (steps: ChecklistStep[]): string => {
+  const lines = steps
+    .filter(step => step.status !== "pending" || step.measured)
+    .map(step => {
+      let line = `${step.order}. ${step.action} —— ${STATUS_LABEL[step.status]}`;
+      if (step.expected) line += `；预期：${step.expected}`;
+      if (step.measured) line += `；实测：${step.measured}`;
+      if (isContradicting(step)) line += "（与预期不符）";
+      if (step.note) line += `；备注：${step.note}`;
+      return line;
+    });
+  return `【实测记录】\n${lines.join("\n")}`;
+};
\ No newline at end of file
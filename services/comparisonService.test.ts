@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { RepairReport } from "../types";
+import { findAgreement, mergeReports } from "./comparisonService";
+
+const report = (causes: [string, number][]): RepairReport => ({
+  summary: causes[0][0],
+  probableCauses: causes.map(([cause, likelihood]) => ({ cause, likelihood })),
+  suspectedComponents: [],
+  testSteps: [],
+  toolsAndParts: [],
+  safetyWarnings: [],
+});
+
+describe("mergeReports", () => {
+  it("同一方案的多条相似原因只计一次，可能性不超过 1", () => {
+    const merged = mergeReports([
+      { candidateId: "a", report: report([["输入保险丝 F1 熔断", 0.8], ["输入保险丝 F1 熔断", 0.7]]) },
+      { candidateId: "b", report: report([["输入保险丝 F1 熔断", 0.9]]) },
+    ]);
+    expect(merged?.probableCauses).toHaveLength(1);
+    expect(merged?.probableCauses[0].likelihood).toBeCloseTo(0.85);
+  });
+
+  it("只有一个方案提到的原因按方案数折算", () => {
+    const merged = mergeReports([
+      { candidateId: "a", report: report([["输入保险丝 F1 熔断", 0.8], ["主控芯片 U2 损坏", 0.4]]) },
+      { candidateId: "b", report: report([["输入保险丝 F1 熔断", 0.6]]) },
+    ]);
+    expect(merged?.probableCauses.map(c => [c.cause, c.likelihood])).toEqual([
+      ["输入保险丝 F1 熔断", 0.7],
+      ["主控芯片 U2 损坏", 0.2],
+    ]);
+  });
+});
+
+describe("findAgreement", () => {
+  it("支持数按方案计，同一方案重复提到不算一致", () => {
+    const agreement = findAgreement([
+      { id: "a", result: { diagnosis: "", rawText: "", sources: [], report: report([["输入保险丝 F1 熔断", 0.8], ["输入保险丝 F1 熔断", 0.7]]) } },
+      { id: "b", result: { diagnosis: "", rawText: "", sources: [], report: report([["主控芯片 U2 损坏", 0.5]]) } },
+    ]);
+    expect(agreement.causes).toEqual([]);
+  });
+});
\ No newline at end of file
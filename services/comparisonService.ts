@@ -0,0 +1,252 @@
+import { GroundingChunk, ProbableCause, PromptProfile, ProviderSettings, RepairAnalysis, RepairReport, SuspectedComponent } from "../types";
+import { tokenize } from "./retrievalService";
+import { sourceKey } from "./groundingService";
+
+// 多配置对比诊断：同一故障用不同模型、是否联网、是否附带案例库分别分析，
+// 找出各方案一致指向的原因和元件，并支持把选中的方案合并为一条诊断记录。
+export const MAX_COMPARISON_CONFIGS = 4;
+/** 两条原因描述的词项重合度达到该值即视为同一原因 */
+const CAUSE_SIMILARITY = 0.4;
+
+export interface ComparisonConfig {
+  id: string;
+  settings: ProviderSettings;
+  useSearch: boolean;
+  useLibrary: boolean;
+}
+
+export type CandidateStatus = "running" | "done" | "error";
+
+export interface ComparisonCandidate {
+  config: ComparisonConfig;
+  status: CandidateStatus;
+  /** 流式输出中的累计文本 */
+  text: string;
+  result?: RepairAnalysis;
+  error?: string;
+}
+
+export const newConfigId = () => `cfg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const configLabel = (config: ComparisonConfig) =>
+  `${config.settings.model} · ${config.useSearch ? "联网" : "不联网"} · ${config.useLibrary ? "含案例库" : "无案例库"}`;
+
+/** 默认对比：当前配置，以及分别去掉联网检索、案例库的两个变体 */
+export const defaultComparisonConfigs = (settings: ProviderSettings, profile: PromptProfile, canSearch: boolean): ComparisonConfig[] => {
+  const base = { settings, useSearch: canSearch && profile.useSearch, useLibrary: true };
+  const configs: ComparisonConfig[] = [{ id: newConfigId(), ...base }];
+  if (base.useSearch) configs.push({ id: newConfigId(), ...base, useSearch: false });
+  configs.push({ id: newConfigId(), ...base, useLibrary: false });
+  return configs;
+};
+
+/** 对比运行时覆盖方案中的联网开关，其余提示词设置保持一致 */
+export const profileForConfig = (profile: PromptProfile, config: ComparisonConfig): PromptProfile => ({
+  ...profile,
+  useSearch: config.useSearch,
+});
+
+// ---------------- 一致性 ----------------
+
+export interface ClusterMember {
+  candidateId: string;
+  index: number;
+}
+
+export interface AgreementCluster {
+  label: string;
+  members: ClusterMember[];
+  /** 提到该项的方案数（同一方案重复提到只算一次） */
+  support: number;
+}
+
+export interface Agreement {
+  causes: AgreementCluster[];
+  components: AgreementCluster[];
+}
+
+// 单个汉字区分度太低，只用双字词与英文/数字片段比较
+const termSet = (text: string) => new Set(tokenize(text).filter(t => t.length > 1 || /[a-z0-9]/.test(t)));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(t => b.has(t) && shared++);
+  return shared / (a.size + b.size - shared);
+};
+
+const normalizePart = (value: string) => value.toLowerCase().replace(/[\s()（）\-_]/g, "");
+
+/** 位号相同，或元件名称归一后相同，视为同一元件 */
+const sameComponent = (a: SuspectedComponent, b: SuspectedComponent) => {
+  if (a.designator && b.designator) return a.designator.trim().toUpperCase() === b.designator.trim().toUpperCase();
+  return normalizePart(a.part) === normalizePart(b.part);
+};
+
+export const componentLabel = (c: SuspectedComponent) => [c.designator, c.part].filter(Boolean).join(" ");
+
+/** 贪心聚类：每项并入第一个相似的簇，否则新建簇 */
+const clusterItems = <T>(
+  entries: { candidateId: string; items: T[] }[],
+  similar: (a: T, b: T) => boolean,
+  labelOf: (item: T) => string
+): (AgreementCluster & { items: T[] })[] => {
+  const clusters: (AgreementCluster & { items: T[] })[] = [];
+  entries.forEach(({ candidateId, items }) => {
+    items.forEach((item, index) => {
+      const cluster = clusters.find(c => c.items.some(other => similar(item, other)));
+      if (cluster) {
+        cluster.items.push(item);
+        cluster.members.push({ candidateId, index });
+      } else {
+        clusters.push({ label: labelOf(item), members: [{ candidateId, index }], support: 0, items: [item] });
+      }
+    });
+  });
+  clusters.forEach(c => (c.support = new Set(c.members.map(m => m.candidateId)).size));
+  return clusters;
+};
+
+const causeClusters = (entries: { candidateId: string; report: RepairReport }[]) => {
+  const terms = new Map<ProbableCause, Set<string>>();
+  const termsOf = (cause: ProbableCause) => {
+    if (!terms.has(cause)) terms.set(cause, termSet(cause.cause));
+    return terms.get(cause)!;
+  };
+  return clusterItems(
+    entries.map(e => ({ candidateId: e.candidateId, items: e.report.probableCauses })),
+    (a, b) => jaccard(termsOf(a), termsOf(b)) >= CAUSE_SIMILARITY,
+    c => c.cause
+  );
+};
+
+const componentClusters = (entries: { candidateId: string; report: RepairReport }[]) =>
+  clusterItems(
+    entries.map(e => ({ candidateId: e.candidateId, items: e.report.suspectedComponents })),
+    sameComponent,
+    componentLabel
+  );
+
+const withReports = (candidates: { id: string; result?: RepairAnalysis }[]) =>
+  candidates.flatMap(c => (c.result?.report ? [{ candidateId: c.id, report: c.result.report }] : []));
+
+/** 至少两个方案都提到的原因与元件，按支持方案数排序 */
+export const findAgreement = (candidates: { id: string; result?: RepairAnalysis }[]): Agreement => {
+  const entries = withReports(candidates);
+  const agreed = (clusters: AgreementCluster[]) =>
+    clusters
+      .filter(c => c.support >= 2)
+      .map(({ label, members, support }) => ({ label, members, support }))
+      .sort((a, b) => b.support - a.support);
+  return {
+    causes: agreed(causeClusters(entries)),
+    components: agreed(componentClusters(entries)),
+  };
+};
+
+// ---------------- 合并 ----------------
+
+const uniqueStrings = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const key = normalizePart(v);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const joinDistinct = (values: (string | undefined)[]) => uniqueStrings(values.filter((v): v is string => !!v)).join("；") || undefined;
+
+/** 同一方案可能有多条原因落入同一簇，每个方案只取其中最高的可能性，再按方案数平均 */
+const clusterLikelihood = (cluster: { members: { candidateId: string }[]; items: ProbableCause[] }, candidateCount: number) => {
+  const best = new Map<string, number>();
+  cluster.items.forEach((cause, i) => {
+    const id = cluster.members[i].candidateId;
+    best.set(id, Math.max(best.get(id) || 0, cause.likelihood));
+  });
+  const sum = Array.from(best.values()).reduce((total, value) => total + value, 0);
+  return Math.min(1, Math.max(0, sum / candidateCount));
+};
+
+/**
+ * 合并结构化报告：原因按簇合并，可能性取各方案的平均值（未提到记 0），
+ * 因而多个方案一致的原因自然排在前面；元件去重；测试步骤以第一个方案为主，
+ * 补充其他方案中不重复的步骤。
+ */
+export const mergeReports = (entries: { candidateId: string; report: RepairReport }[]): RepairReport | undefined => {
+  if (entries.length === 0) return undefined;
+  const [primary] = entries;
+
+  const probableCauses = causeClusters(entries)
+    .map(cluster => ({
+      cause: cluster.label,
+      likelihood: clusterLikelihood(cluster, entries.length),
+      reasoning: joinDistinct(cluster.items.map(c => c.reasoning)),
+      source: cluster.items.find(c => c.source)?.source,
+    }))
+    .sort((a, b) => b.likelihood - a.likelihood);
+
+  const suspectedComponents = componentClusters(entries).map(cluster => ({
+    designator: cluster.items.find(c => c.designator)?.designator,
+    part: cluster.items[0].part,
+    reason: joinDistinct(cluster.items.map(c => c.reason)),
+  }));
+
+  const steps = [...primary.report.testSteps];
+  entries.slice(1).forEach(({ report }) => {
+    report.testSteps.forEach(step => {
+      const terms = termSet(step.action);
+      if (!steps.some(s => jaccard(termSet(s.action), terms) >= CAUSE_SIMILARITY)) steps.push(step);
+    });
+  });
+
+  return {
+    summary: primary.report.summary,
+    probableCauses,
+    suspectedComponents,
+    testSteps: steps.map((step, i) => ({ ...step, order: i + 1 })),
+    toolsAndParts: uniqueStrings(entries.flatMap(e => e.report.toolsAndParts)),
+    safetyWarnings: uniqueStrings(entries.flatMap(e => e.report.safetyWarnings)),
+  };
+};
+
+/** 合并各方案的联网来源并重新编号正文中的 [^n] 引用标记 */
+const mergeSources = (results: RepairAnalysis[]) => {
+  const sources: GroundingChunk[] = [];
+  const texts = results.map(result => {
+    const numberMap = result.sources.map(source => {
+      if (!source.web) return undefined;
+      const key = sourceKey(source);
+      let index = sources.findIndex(s => sourceKey(s) === key);
+      if (index === -1) index = sources.push(source) - 1;
+      return index + 1;
+    });
+    return result.rawText.replace(/\[\^(\d{1,3})\]/g, (marker, n) => {
+      const mapped = numberMap[Number(n) - 1];
+      return mapped ? `[^${mapped}]` : "";
+    });
+  });
+  return { sources, texts };
+};
+
+export const mergeAnalyses = (candidates: { label: string; result: RepairAnalysis }[]): RepairAnalysis => {
+  const results = candidates.map(c => c.result);
+  const report = mergeReports(results.flatMap((result, i) => (result.report ? [{ candidateId: String(i), report: result.report }] : [])));
+  const { sources, texts } = mergeSources(results);
+  const references = results.flatMap(r => r.references || []).filter((ref, i, all) => all.findIndex(r => r.item.id === ref.item.id) === i);
+  const documents = results.flatMap(r => r.documents || []).filter((doc, i, all) => all.findIndex(d => d.docId === doc.docId && d.page === doc.page) === i);
+  const notices = Array.from(new Set(results.flatMap(r => r.notices || [])));
+  const searchQueries = Array.from(new Set(results.flatMap(r => r.searchQueries || [])));
+
+  return {
+    diagnosis: report?.summary || results[0].diagnosis,
+    rawText: candidates.map((c, i) => `## ${c.label}\n\n${texts[i]}`).join("\n\n---\n\n"),
+    sources,
+    searchQueries: searchQueries.length > 0 ? searchQueries : undefined,
+    references: references.length > 0 ? references : undefined,
+    documents: documents.length > 0 ? documents : undefined,
+    report,
+    notices: [`本方案由 ${candidates.length} 个配置的诊断合并：${candidates.map(c => c.label).join("、")}。`, ...notices],
+  };
+};
\ No newline at end of file
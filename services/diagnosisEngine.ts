@@ -0,0 +1,67 @@
+import { LibraryItem, LibraryMatch, PromptProfile, RepairAnalysis, SourcePreferences } from "../types";
+import { LLMProvider } from "./llmProvider";
+import { ImageInput, analyzeRepairIssue } from "./geminiService";
+import { buildKnowledgeContext, buildLibraryIndex, searchLibrary } from "./retrievalService";
+import { EMPTY_SOURCE_PREFERENCES } from "./groundingService";
+import { DEFAULT_PROFILES, findProfile } from "./promptProfileService";
+
+// 脱离界面的诊断入口：检索案例库、拼装提示词并调用模型，供命令行批量诊断和本地 HTTP 接口使用。
+// 模型后端、案例库和提示词方案全部由调用方传入，不读取浏览器存储，可以换成测试桩模型。
+export interface DiagnosisEngineOptions {
+  provider: LLMProvider;
+  library?: LibraryItem[];
+  profiles?: PromptProfile[];
+  /** 请求未指定方案时使用，缺省为第一个方案 */
+  defaultProfileId?: string;
+  sourcePreferences?: SourcePreferences;
+}
+
+export interface DiagnosisInput {
+  description: string;
+  /** 设备型号：用于案例检索，并在描述中未出现时补充到故障描述前 */
+  model?: string;
+  images?: ImageInput[];
+  profileId?: string;
+}
+
+export interface DiagnosisEngine {
+  readonly provider: LLMProvider;
+  readonly profiles: PromptProfile[];
+  readonly libraryCount: number;
+  diagnose(input: DiagnosisInput): Promise<RepairAnalysis>;
+}
+
+/** 带上型号的故障描述，与界面中从工单发起诊断时的写法一致 */
+export const describeWithModel = (description: string, model?: string) => {
+  const text = description.trim();
+  const name = model?.trim();
+  return name && !text.toLowerCase().includes(name.toLowerCase()) ? `型号：${name}\n${text}` : text;
+};
+
+export const createDiagnosisEngine = (options: DiagnosisEngineOptions): DiagnosisEngine => {
+  const library = options.library || [];
+  const index = buildLibraryIndex(library);
+  const profiles = options.profiles && options.profiles.length > 0 ? options.profiles : DEFAULT_PROFILES;
+  const sourcePreferences = options.sourcePreferences || EMPTY_SOURCE_PREFERENCES;
+
+  return {
+    provider: options.provider,
+    profiles,
+    libraryCount: library.length,
+    diagnose: async input => {
+      const description = describeWithModel(input.description, input.model);
+      const references: LibraryMatch[] = searchLibrary(index, input.description, { deviceName: input.model });
+      const profile = findProfile(profiles, input.profileId || options.defaultProfileId);
+      const analysis = await analyzeRepairIssue(
+        description,
+        input.images,
+        buildKnowledgeContext(references),
+        options.provider,
+        undefined,
+        profile,
+        sourcePreferences
+      );
+      return { ...analysis, references: references.length > 0 ? references : undefined };
+    },
+  };
+};
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { DocumentExcerpt, DocumentPage, ReferenceDocument } from "../types";
+import { rankPassages } from "./retrievalService";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// 技术文档：PDF/文本在浏览器内提取文字，诊断时只把与故障描述最相关的若干页发给模型
+export const DOCUMENT_ACCEPT = ".pdf,.txt,.md,.csv,.log";
+const MAX_PDF_PAGES = 500;
+/** 纯文本文档没有页码，按该长度切分为“页” */
+const TEXT_PAGE_CHARS = 3000;
+export const MAX_EXCERPTS = 6;
+/** 每页摘录最多发送的字符数，避免单页电路图说明占满上下文 */
+const MAX_EXCERPT_CHARS = 2500;
+
+const isPdf = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+// pdf.js 体积较大，只在第一次导入 PDF 时加载；worker 随应用一起打包，离线也能解析
+const loadPdfJs = async () => {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  }
+  return pdfjs;
+};
+
+const extractPdfPages = async (file: File): Promise<DocumentPage[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: DocumentPage[] = [];
+    const count = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    for (let n = 1; n <= count; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("")
+        .replace(/[ \t]+/g, " ")
+        .trim();
+      if (text) pages.push({ page: n, text });
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/** 纯文本优先按换页符分页，否则在段落边界附近按固定长度切分 */
+export const splitTextPages = (text: string): DocumentPage[] => {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const chunks = normalized.includes("\f") ? normalized.split("\f") : [];
+  if (chunks.length === 0) {
+    let rest = normalized;
+    while (rest.length > TEXT_PAGE_CHARS) {
+      const cut = rest.lastIndexOf("\n\n", TEXT_PAGE_CHARS);
+      const end = cut > TEXT_PAGE_CHARS / 2 ? cut : TEXT_PAGE_CHARS;
+      chunks.push(rest.slice(0, end));
+      rest = rest.slice(end);
+    }
+    chunks.push(rest);
+  }
+  return chunks
+    .map((chunk, i) => ({ page: i + 1, text: chunk.trim() }))
+    .filter(p => p.text);
+};
+
+/** 读取文件并提取各页文字；扫描版 PDF 没有文字层时抛出错误 */
+export const readReferenceDocument = async (file: File, model?: string): Promise<ReferenceDocument> => {
+  const pdf = isPdf(file);
+  const pages = pdf ? await extractPdfPages(file) : splitTextPages(await file.text());
+  if (pages.length === 0) {
+    throw new Error(pdf ? `《${file.name}》中没有可提取的文字（可能是扫描件），请使用带文字层的 PDF` : `《${file.name}》内容为空`);
+  }
+  return {
+    id: `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name.replace(/\.[^.]+$/, ""),
+    kind: pdf ? "pdf" : "text",
+    model: model?.trim() || undefined,
+    pages,
+    addedAt: Date.now(),
+  };
+};
+
+/** 已登记型号出现在故障描述或设备名称中的文档（忽略大小写） */
+export const documentsForDevice = (docs: ReferenceDocument[], ...texts: (string | undefined)[]): ReferenceDocument[] => {
+  const haystack = texts.filter(Boolean).join(" ").toLowerCase();
+  return docs.filter(doc => doc.model && haystack.includes(doc.model.toLowerCase()));
+};
+
+/** 用户手动附加、但没有任何页命中描述时，仍带上的前几页（如英文手册配中文描述） */
+const ATTACHED_FALLBACK_PAGES = 2;
+
+/**
+ * 在候选文档的所有页中检索与故障描述最相关的页，作为摘录发送。
+ * attached 为本次诊断手动附加的文档，检索不到时也至少带上其前几页。
+ */
+export const selectExcerpts = (docs: ReferenceDocument[], query: string, attached: ReferenceDocument[] = [], limit = MAX_EXCERPTS): DocumentExcerpt[] => {
+  const toExcerpt = (doc: ReferenceDocument, page: DocumentPage): DocumentExcerpt =>
+    ({ docId: doc.id, docName: doc.name, page: page.page, text: page.text.slice(0, MAX_EXCERPT_CHARS) });
+  const all = [...attached, ...docs.filter(doc => !attached.some(a => a.id === doc.id))];
+  const passages = all.flatMap(doc => doc.pages.map(page => ({ value: toExcerpt(doc, page), text: `${doc.name} ${page.text}` })));
+  const ranked = rankPassages(passages, query, limit).map(r => r.value);
+  // 文档很短、描述又没有命中任何词时，把全部页面都带上
+  if (ranked.length === 0 && passages.length > 0 && passages.length <= limit) return passages.map(p => p.value);
+  const missing = attached.filter(doc => !ranked.some(e => e.docId === doc.id));
+  return [...ranked, ...missing.flatMap(doc => doc.pages.slice(0, ATTACHED_FALLBACK_PAGES).map(page => toExcerpt(doc, page)))];
+};
+
+/** 引用标注格式，提示词与界面保持一致 */
+export const citationLabel = (excerpt: Pick<DocumentExcerpt, "docName" | "page">) => `${excerpt.docName} 第${excerpt.page}页`;
+
+/** 每条摘录作为一个独立的文本 part 发送，便于模型区分来源 */
+export const excerptToPrompt = (excerpt: DocumentExcerpt, index: number) =>
+  `【技术文档 ${index + 1}】〔${citationLabel(excerpt)}〕\n${excerpt.text}`;
\ No newline at end of file
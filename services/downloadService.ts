@@ -0,0 +1,10 @@
+// 浏览器端文件下载：把生成的内容保存为本地文件
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // 部分浏览器在 click 返回后才开始读取链接，稍后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
\ No newline at end of file
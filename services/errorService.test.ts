@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DiagnosisError, classifyError, httpError, parseRetryAfter, retryDelayFor } from "./errorService";
+
+// @google/genai 抛出的 ApiError：message 中带有服务端返回的 JSON
+const sdkError = (status: number, body: object) =>
+  Object.assign(new Error(`got status: ${status} . ${JSON.stringify(body)}`), { status });
+
+describe("classifyError", () => {
+  it("Gemini 以 400 INVALID_ARGUMENT 返回无效 Key 时归为 auth", () => {
+    const error = classifyError(sdkError(400, {
+      error: { code: 400, message: "API key not valid. Please pass a valid API key.", status: "INVALID_ARGUMENT", details: [{ reason: "API_KEY_INVALID" }] },
+    }));
+    expect(error.category).toBe("auth");
+    expect(error.status).toBe(400);
+  });
+
+  it("429 的 RetryInfo 转为等待时间", () => {
+    const error = classifyError(sdkError(429, {
+      error: { code: 429, status: "RESOURCE_EXHAUSTED", details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "23s" }] },
+    }));
+    expect(error.category).toBe("rate_limit");
+    expect(error.retryAfterMs).toBe(23000);
+  });
+
+  it("Retry-After 头支持秒数与 HTTP 日期", () => {
+    expect(httpError(429, "Too Many Requests", "", "5").retryAfterMs).toBe(5000);
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10000);
+  });
+
+  it("按状态码与错误信息归类", () => {
+    expect(classifyError(new TypeError("Failed to fetch")).category).toBe("network");
+    expect(classifyError(new Error("connect ECONNREFUSED 127.0.0.1:11434")).category).toBe("network");
+    expect(httpError(400, "Bad Request", "unsupported mime type image/heic").category).toBe("bad_input");
+    expect(httpError(503, "Service Unavailable", "").category).toBe("server");
+    expect(classifyError(new Error("Response was blocked due to SAFETY")).category).toBe("safety");
+    expect(classifyError(new DOMException("The user aborted a request.", "AbortError")).category).toBe("aborted");
+    expect(classifyError("奇怪的错误").category).toBe("unknown");
+  });
+
+  it("已分类的错误原样返回", () => {
+    const error = new DiagnosisError("safety");
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe("retryDelayFor", () => {
+  const half = () => 0.5;
+
+  it("鉴权、安全拦截与参数错误不重试", () => {
+    (["auth", "safety", "bad_input", "aborted"] as const).forEach(category => {
+      expect(retryDelayFor(new DiagnosisError(category), 0)).toBeUndefined();
+    });
+  });
+
+  it("网络错误指数退避，超过类别上限后停止", () => {
+    const error = new DiagnosisError("network");
+    expect([0, 1, 2].map(i => retryDelayFor(error, i, { random: half }))).toEqual([1500, 3000, 6000]);
+    expect(retryDelayFor(error, 3, { random: half })).toBeUndefined();
+  });
+
+  it("服务端要求的等待时间优先，过长时放弃重试", () => {
+    expect(retryDelayFor(new DiagnosisError("rate_limit", { retryAfterMs: 23000 }), 0)).toBe(23000);
+    expect(retryDelayFor(new DiagnosisError("rate_limit", { retryAfterMs: 3600000 }), 0)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,233 @@
+// 模型调用错误分类：把 SDK / HTTP 返回的各种原始错误归为几类，
+// 每类对应一条中文说明、一条建议操作和各自的重试策略。
+export type ErrorCategory =
+  | "auth"
+  | "rate_limit"
+  | "safety"
+  | "network"
+  | "timeout"
+  | "server"
+  | "bad_input"
+  | "aborted"
+  | "unknown";
+
+interface CategoryInfo {
+  message: string;
+  action: string;
+  /** 该类错误最多重试的次数，0 表示不重试 */
+  retries: number;
+}
+
+export const ERROR_CATEGORIES: Record<ErrorCategory, CategoryInfo> = {
+  auth: {
+    message: "API Key 缺失或无效，模型服务拒绝了请求。",
+    action: "在右上角「模型设置」中填写有效的 API Key，或检查部署时配置的 GEMINI_API_KEY。",
+    retries: 0,
+  },
+  rate_limit: {
+    message: "请求过于频繁或已用完配额。",
+    action: "稍等一分钟后重试；如持续出现，请检查账号配额或在设置中切换到其他模型。",
+    retries: 2,
+  },
+  safety: {
+    message: "请求或回答被模型的安全策略拦截。",
+    action: "调整故障描述的措辞（避免与维修无关的敏感内容），或移除可能触发拦截的照片后重试。",
+    retries: 0,
+  },
+  network: {
+    message: "无法连接模型服务。",
+    action: "检查网络连接或代理设置；使用本地模型时确认服务已启动且接口地址正确。",
+    retries: 3,
+  },
+  timeout: {
+    message: "模型响应超时。",
+    action: "稍后重试；可减少照片数量或缩短描述，以加快响应。",
+    retries: 1,
+  },
+  server: {
+    message: "模型服务暂时不可用。",
+    action: "服务端繁忙或故障，请稍后重试，或在设置中切换到其他模型。",
+    retries: 3,
+  },
+  bad_input: {
+    message: "请求内容不被模型接受（照片过大、格式不支持或参数错误）。",
+    action: "减少照片数量、换用 JPG/PNG 格式，或检查模型名称是否正确。",
+    retries: 0,
+  },
+  aborted: {
+    message: "已停止分析。",
+    action: "",
+    retries: 0,
+  },
+  unknown: {
+    message: "分析失败。",
+    action: "请检查设置或网络后重试。",
+    retries: 1,
+  },
+};
+
+export class DiagnosisError extends Error {
+  readonly category: ErrorCategory;
+  readonly status?: number;
+  /** 服务端要求的等待时间（Retry-After / RetryInfo） */
+  readonly retryAfterMs?: number;
+  /** 原始错误信息，便于排查 */
+  readonly detail?: string;
+
+  constructor(category: ErrorCategory, options: { status?: number; retryAfterMs?: number; detail?: string; message?: string } = {}) {
+    super(options.message || ERROR_CATEGORIES[category].message);
+    this.name = "DiagnosisError";
+    this.category = category;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = options.detail;
+  }
+
+  get action() {
+    return ERROR_CATEGORIES[this.category].action;
+  }
+}
+
+const GRPC_STATUS: Record<string, ErrorCategory> = {
+  UNAUTHENTICATED: "auth",
+  PERMISSION_DENIED: "auth",
+  RESOURCE_EXHAUSTED: "rate_limit",
+  INVALID_ARGUMENT: "bad_input",
+  FAILED_PRECONDITION: "bad_input",
+  NOT_FOUND: "bad_input",
+  DEADLINE_EXCEEDED: "timeout",
+  UNAVAILABLE: "server",
+  INTERNAL: "server",
+};
+
+const categoryOfStatus = (status: number): ErrorCategory | undefined => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate_limit";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "server";
+  if (status === 400 || status === 404 || status === 413 || status === 415 || status === 422) return "bad_input";
+  return undefined;
+};
+
+/** SDK、fetch 与自定义错误共有的字段 */
+interface ErrorLike {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  code?: unknown;
+  retryAfterMs?: unknown;
+}
+
+const asErrorLike = (error: unknown): ErrorLike => (typeof error === "object" && error !== null ? error : {});
+
+const extractStatus = (error: ErrorLike, message: string): number | undefined => {
+  const direct = Number(error.status ?? error.code);
+  if (Number.isInteger(direct) && direct >= 400 && direct < 600) return direct;
+  const match = message.match(/\bHTTP (\d{3})\b/) || message.match(/"code"\s*:\s*(\d{3})/) || message.match(/\bgot status:? (\d{3})\b/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+/** 解析 Retry-After 头（秒数或 HTTP 日期），返回毫秒 */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Gemini 在错误详情的 RetryInfo 中给出 "retryDelay": "23s"
+const extractRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Gemini 对无效 Key 返回 400 INVALID_ARGUMENT，需先于状态码判断
+const AUTH_MESSAGE = /api[ _-]?key|API_KEY_INVALID|unauthori[sz]ed|permission denied/i;
+
+const matchCategory = (message: string): ErrorCategory | undefined => {
+  if (/quota|rate limit|too many requests/i.test(message)) return "rate_limit";
+  if (/safety|blocked|prohibited|content[_ ]filter/i.test(message)) return "safety";
+  if (/timed? ?out|deadline/i.test(message)) return "timeout";
+  if (/payload size|too large|unable to process input image|unsupported (mime|image)/i.test(message)) return "bad_input";
+  if (/fetch|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|XHR error|Rpc failed|Load failed/i.test(message)) return "network";
+  if (/overloaded|unavailable|internal error/i.test(message)) return "server";
+  return undefined;
+};
+
+/** 把任意抛出值归类为 DiagnosisError；已分类的错误原样返回 */
+export const classifyError = (error: unknown): DiagnosisError => {
+  if (error instanceof DiagnosisError) return error;
+  const err = asErrorLike(error);
+  const detail = String(err.message ?? error ?? "");
+
+  if (err.name === "AbortError") return new DiagnosisError("aborted", { detail });
+  if (err.name === "TimeoutError") return new DiagnosisError("timeout", { detail });
+
+  const status = extractStatus(err, detail);
+  const grpc = Object.keys(GRPC_STATUS).find(code => detail.includes(code));
+  const category =
+    (AUTH_MESSAGE.test(detail) ? "auth" : undefined) ||
+    (status !== undefined ? categoryOfStatus(status) : undefined) ||
+    (grpc ? GRPC_STATUS[grpc] : undefined) ||
+    matchCategory(detail) ||
+    "unknown";
+
+  return new DiagnosisError(category, {
+    status,
+    retryAfterMs: typeof err.retryAfterMs === "number" ? err.retryAfterMs : extractRetryDelay(detail),
+    detail,
+  });
+};
+
+/** 由 HTTP 响应构造错误，Retry-After 头转为等待时间 */
+export const httpError = (status: number, statusText: string, detail: string, retryAfter?: string | null) =>
+  new DiagnosisError(categoryOfStatus(status) || classifyError(detail).category, {
+    status,
+    retryAfterMs: parseRetryAfter(retryAfter) ?? extractRetryDelay(detail),
+    detail: `HTTP ${status} ${statusText}: ${detail}`,
+  });
+
+/** 断网或服务不可达，可转为离线诊断 */
+export const isConnectivityCategory = (category: ErrorCategory) => category === "network";
+
+export interface RetryOptions {
+  /** 额外重试次数上限；实际次数还受各类别自身上限约束 */
+  retries?: number;
+  initialDelay?: number;
+  /** 单次退避等待的上限 */
+  maxDelay?: number;
+  /** 服务端要求等待超过该时长时不再重试（通常是当日配额用尽） */
+  maxRetryAfter?: number;
+  /** 整个请求（含所有重试与等待）的总时限 */
+  timeoutMs?: number;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, "random">> = {
+  retries: 3,
+  initialDelay: 2000,
+  maxDelay: 30000,
+  maxRetryAfter: 60000,
+  timeoutMs: 180000,
+};
+
+/**
+ * 第 attempt 次（从 0 开始）失败后的等待时间，返回 undefined 表示不应重试。
+ * 有 Retry-After 时按服务端要求等待；否则指数退避并加入“半随机”抖动，
+ * 避免多个客户端同时重试。
+ */
+export const retryDelayFor = (
+  error: DiagnosisError,
+  attempt: number,
+  options: RetryOptions = {}
+): number | undefined => {
+  const { retries, initialDelay, maxDelay, maxRetryAfter } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const random = options.random || Math.random;
+  if (attempt >= Math.min(retries, ERROR_CATEGORIES[error.category].retries)) return undefined;
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= maxRetryAfter ? error.retryAfterMs : undefined;
+  }
+  const base = Math.min(maxDelay, initialDelay * 2 ** attempt);
+  return Math.round(base / 2 + random() * (base / 2));
+};
\ No newline at end of file
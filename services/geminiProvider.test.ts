@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createProvider } from "./llmProvider";
+import { DiagnosisError } from "./errorService";
+import { analyzeRepairIssue } from "./geminiService";
+import { DEFAULT_PROFILES } from "./promptProfileService";
+import { EMPTY_SOURCE_PREFERENCES } from "./groundingService";
+
+// 模拟 @google/genai 的客户端，经 createProvider 走完 Gemini 后端的错误识别与结果转换
+const sdk = vi.hoisted(() => ({ generateContent: vi.fn(), generateContentStream: vi.fn() }));
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: class {
+    models = sdk;
+  },
+}));
+
+/** SDK 的 ApiError：status 为 HTTP 状态码，message 中带有服务端返回的 JSON */
+const apiError = (status: number, body: object) =>
+  Object.assign(new Error(`got status: ${status} . ${JSON.stringify(body)}`), { name: "ApiError", status });
+
+const reply = (text: string, extra: object = {}) => ({ text, candidates: [{ finishReason: "STOP", ...extra }] });
+
+const provider = () => createProvider({ provider: "gemini", model: "gemini-test", apiKey: "test-key" });
+
+const diagnose = () =>
+  analyzeRepairIssue("开机无输出", undefined, undefined, provider(), undefined, DEFAULT_PROFILES[0], EMPTY_SOURCE_PREFERENCES);
+
+/** 推进假时钟直到 promise 结束，返回其结果或错误 */
+const settle = async <T>(promise: Promise<T>, ms: number) => {
+  const outcome = promise.then(value => ({ value }), (error: unknown) => ({ error }));
+  await vi.advanceTimersByTimeAsync(ms);
+  return outcome;
+};
+
+const categoryOf = (outcome: object) => ("error" in outcome ? (outcome.error as DiagnosisError).category : undefined);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+  sdk.generateContent.mockReset();
+  sdk.generateContentStream.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("Gemini 后端的错误识别", () => {
+  it("SDK 返回 400 API_KEY_INVALID 时归为 auth，不重试", async () => {
+    sdk.generateContent.mockRejectedValue(apiError(400, {
+      error: { code: 400, message: "API key not valid. Please pass a valid API key.", status: "INVALID_ARGUMENT", details: [{ reason: "API_KEY_INVALID" }] },
+    }));
+    expect(categoryOf(await settle(diagnose(), 60000))).toBe("auth");
+    expect(sdk.generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("SDK 返回 429 时按 RetryInfo 等待后重试", async () => {
+    sdk.generateContent
+      .mockRejectedValueOnce(apiError(429, { error: { code: 429, status: "RESOURCE_EXHAUSTED", details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "23s" }] } }))
+      .mockResolvedValue(reply("更换 F1"));
+    const promise = diagnose();
+    await vi.advanceTimersByTimeAsync(22000);
+    expect(sdk.generateContent).toHaveBeenCalledTimes(1);
+    const outcome = await settle(promise, 1000);
+    expect("value" in outcome && outcome.value.rawText).toBe("更换 F1");
+    expect(sdk.generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it("提示词被拦截（promptFeedback.blockReason）时归为 safety", async () => {
+    sdk.generateContent.mockResolvedValue({ text: undefined, promptFeedback: { blockReason: "PROHIBITED_CONTENT" }, candidates: [] });
+    const outcome = await settle(diagnose(), 60000);
+    expect(categoryOf(outcome)).toBe("safety");
+    expect((outcome as { error: DiagnosisError }).error.detail).toContain("PROHIBITED_CONTENT");
+    expect(sdk.generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("流式回答因 finishReason: SAFETY 为空时归为 safety", async () => {
+    sdk.generateContentStream.mockImplementation(async () => (async function* () {
+      yield { text: undefined, candidates: [{ finishReason: "SAFETY" }] };
+    })());
+    const stream = provider().stream({ systemInstruction: "", messages: [{ role: "user", parts: [{ text: "开机无输出" }] }], useSearch: false });
+    await expect((async () => { for await (const _ of stream) { /* 消费 */ } })()).rejects.toMatchObject({ category: "safety" });
+  });
+
+  it("fetch 失败归为 network，重试 3 次", async () => {
+    sdk.generateContent.mockRejectedValue(new TypeError("fetch failed"));
+    expect(categoryOf(await settle(diagnose(), 60000))).toBe("network");
+    expect(sdk.generateContent).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("检索元数据转换", () => {
+  it("只保留应用使用的字段，非网页来源保留为空条目以对齐下标", async () => {
+    sdk.generateContent.mockResolvedValue(reply("F1 熔断。", {
+      groundingMetadata: {
+        groundingChunks: [
+          { retrievedContext: { uri: "gs://bucket/doc", title: "内部文档" } },
+          { web: { uri: "https://e2e.ti.com/x", title: "TI E2E" } },
+        ],
+        groundingSupports: [{ segment: { startIndex: 0, endIndex: 9, text: "F1 熔断。" }, groundingChunkIndices: [1], confidenceScores: [0.9] }],
+        webSearchQueries: ["F1 熔断"],
+        searchEntryPoint: { renderedContent: "<div></div>" },
+      },
+    }));
+    const { groundingMetadata } = await provider().generate({ systemInstruction: "", messages: [], useSearch: true });
+    expect(groundingMetadata).toEqual({
+      groundingChunks: [{}, { web: { uri: "https://e2e.ti.com/x", title: "TI E2E" } }],
+      groundingSupports: [{
+        segment: { partIndex: undefined, startIndex: 0, endIndex: 9, text: "F1 熔断。" },
+        groundingChunkIndices: [1],
+        confidenceScores: [0.9],
+      }],
+      webSearchQueries: ["F1 熔断"],
+    });
+  });
+
+  it("没有检索元数据时返回 undefined", async () => {
+    sdk.generateContent.mockResolvedValue(reply("更换 F1"));
+    expect((await provider().generate({ systemInstruction: "", messages: [], useSearch: false })).groundingMetadata).toBeUndefined();
+  });
+});
\ No newline at end of file
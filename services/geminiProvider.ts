@@ -0,0 +1,79 @@
+import { GoogleGenAI, GroundingMetadata as SdkGroundingMetadata } from "@google/genai";
+import { GroundingChunk, GroundingMetadata, ProviderSettings } from "../types";
+import { GenerateRequest, LLMProvider } from "./llmProvider";
+import { DiagnosisError } from "./errorService";
+
+const toGeminiParams = (model: string, request: GenerateRequest) => ({
+  model,
+  contents: request.messages.map(message => ({
+    role: message.role,
+    parts: message.parts.map(part => (part.image ? { inlineData: part.image } : { text: part.text || "" })),
+  })),
+  config: {
+    systemInstruction: request.systemInstruction,
+    tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+    temperature: request.temperature,
+    abortSignal: request.signal,
+  },
+});
+
+/** 转为应用内的检索元数据；非网页来源保留为空条目，groundingSupports 中的下标才能对应上 */
+const toGroundingMetadata = (metadata: SdkGroundingMetadata | undefined): GroundingMetadata | undefined => {
+  if (!metadata) return undefined;
+  return {
+    groundingChunks: metadata.groundingChunks?.map((chunk): GroundingChunk =>
+      chunk.web?.uri ? { web: { uri: chunk.web.uri, title: chunk.web.title || "" } } : {}
+    ),
+    groundingSupports: metadata.groundingSupports?.map(support => ({
+      segment: support.segment && {
+        partIndex: support.segment.partIndex,
+        startIndex: support.segment.startIndex,
+        endIndex: support.segment.endIndex,
+        text: support.segment.text,
+      },
+      groundingChunkIndices: support.groundingChunkIndices,
+      confidenceScores: support.confidenceScores,
+    })),
+    webSearchQueries: metadata.webSearchQueries,
+  };
+};
+
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII"];
+
+// 被安全策略拦截时 SDK 不会报错，只返回空文本和拦截原因，需要转为明确的错误
+const assertNotBlocked = (response: any, text: string | undefined) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new DiagnosisError("safety", { detail: `blockReason: ${blockReason}` });
+  if (!text && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new DiagnosisError("safety", { detail: `finishReason: ${finishReason}` });
+  }
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): LLMProvider => {
+  // 设置中未填写 Key 时回退到构建时注入的环境变量，缺失时交由 SDK 报错
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY || "" });
+  const model = settings.model;
+
+  return {
+    id: "gemini",
+    model,
+    capabilities: { search: true, images: true },
+
+    async generate(request) {
+      const response = await ai.models.generateContent(toGeminiParams(model, request));
+      assertNotBlocked(response, response.text);
+      return { text: response.text || "", groundingMetadata: toGroundingMetadata(response.candidates?.[0]?.groundingMetadata) };
+    },
+
+    async *stream(request) {
+      const stream = await ai.models.generateContentStream(toGeminiParams(model, request));
+      let emitted = false;
+      for await (const chunk of stream) {
+        if (!emitted) assertNotBlocked(chunk, chunk.text);
+        emitted = emitted || !!chunk.text;
+        yield { text: chunk.text, groundingMetadata: toGroundingMetadata(chunk.candidates?.[0]?.groundingMetadata) };
+      }
+    },
+  };
+};
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GenerateRequest, LLMProvider, StreamChunk } from "./llmProvider";
+import { DiagnosisError, httpError } from "./errorService";
+import { analyzeRepairIssue, analyzeRepairIssueStream } from "./geminiService";
+import { DEFAULT_PROFILES } from "./promptProfileService";
+import { EMPTY_SOURCE_PREFERENCES } from "./groundingService";
+
+// 用模拟的模型后端验证按错误类别的重试策略与总时限
+const REPLY = "### 结论\n\n更换 F1。";
+
+type Step = Error | string | "hang";
+
+/** 按顺序执行每次调用的结果：抛错、返回文本，或一直挂起直到 signal 中止 */
+const mockProvider = (steps: Step[]) => {
+  const calls: GenerateRequest[] = [];
+  const run = (request: GenerateRequest) => {
+    calls.push(request);
+    const step = steps[Math.min(calls.length - 1, steps.length - 1)];
+    if (step === "hang") {
+      return new Promise<never>((_, reject) => {
+        request.signal?.addEventListener("abort", () => reject(request.signal!.reason), { once: true });
+      });
+    }
+    return step instanceof Error ? Promise.reject(step) : Promise.resolve({ text: step });
+  };
+  const provider: LLMProvider = {
+    id: "openai",
+    model: "mock",
+    capabilities: { search: false, images: false },
+    generate: run,
+    async *stream(request): AsyncIterable<StreamChunk> {
+      yield await run(request);
+    },
+  };
+  return { provider, calls };
+};
+
+const diagnose = (provider: LLMProvider) =>
+  analyzeRepairIssue("开机无输出", undefined, undefined, provider, undefined, DEFAULT_PROFILES[0], EMPTY_SOURCE_PREFERENCES);
+
+/** 推进假时钟直到 promise 结束，返回其结果或错误 */
+const settle = async <T>(promise: Promise<T>, ms: number) => {
+  const outcome = promise.then(value => ({ value }), (error: unknown) => ({ error }));
+  await vi.advanceTimersByTimeAsync(ms);
+  return outcome;
+};
+
+const categoryOf = (outcome: object) => ("error" in outcome ? (outcome.error as DiagnosisError).category : undefined);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("analyzeRepairIssue 重试策略", () => {
+  it("无效 API Key 立即失败，不重试", async () => {
+    const { provider, calls } = mockProvider([
+      Object.assign(new Error('got status: 400 . {"error":{"code":400,"message":"API key not valid.","details":[{"reason":"API_KEY_INVALID"}]}}'), { status: 400 }),
+    ]);
+    const outcome = await settle(diagnose(provider), 60000);
+    expect(categoryOf(outcome)).toBe("auth");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("429 按 Retry-After 等待后重试", async () => {
+    const { provider, calls } = mockProvider([httpError(429, "Too Many Requests", "", "5"), REPLY]);
+    const promise = diagnose(provider);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(calls).toHaveLength(1);
+    const outcome = await settle(promise, 1);
+    expect(calls).toHaveLength(2);
+    expect("value" in outcome && outcome.value.rawText).toContain("更换 F1");
+  });
+
+  it("429 按 RetryInfo 中的 retryDelay 等待", async () => {
+    const { provider, calls } = mockProvider([
+      Object.assign(new Error('got status: 429 . {"error":{"code":429,"details":[{"retryDelay":"23s"}]}}'), { status: 429 }),
+      REPLY,
+    ]);
+    const promise = diagnose(provider);
+    await vi.advanceTimersByTimeAsync(22000);
+    expect(calls).toHaveLength(1);
+    await settle(promise, 1000);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("安全拦截不重试", async () => {
+    const { provider, calls } = mockProvider([new DiagnosisError("safety", { detail: "finishReason: SAFETY" })]);
+    expect(categoryOf(await settle(diagnose(provider), 60000))).toBe("safety");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("参数错误不重试", async () => {
+    const { provider, calls } = mockProvider([httpError(400, "Bad Request", "unsupported mime type")]);
+    expect(categoryOf(await settle(diagnose(provider), 60000))).toBe("bad_input");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("网络错误重试 3 次后失败", async () => {
+    const { provider, calls } = mockProvider([new TypeError("Failed to fetch")]);
+    const outcome = await settle(diagnose(provider), 60000);
+    expect(categoryOf(outcome)).toBe("network");
+    expect(calls).toHaveLength(4);
+  });
+
+  it("网络恢复后返回结果", async () => {
+    const { provider, calls } = mockProvider([new TypeError("Failed to fetch"), REPLY]);
+    const outcome = await settle(diagnose(provider), 60000);
+    expect("value" in outcome).toBe(true);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("超过总时限时以 timeout 结束", async () => {
+    const { provider, calls } = mockProvider(["hang"]);
+    const promise = diagnose(provider);
+    await vi.advanceTimersByTimeAsync(179000);
+    expect(calls).toHaveLength(1);
+    const outcome = await settle(promise, 1000);
+    expect(categoryOf(outcome)).toBe("timeout");
+    expect(calls[0].signal?.aborted).toBe(true);
+  });
+});
+
+describe("analyzeRepairIssueStream", () => {
+  it("用户中止后不再重试", async () => {
+    const { provider, calls } = mockProvider(["hang"]);
+    const controller = new AbortController();
+    const promise = analyzeRepairIssueStream("开机无输出", undefined, undefined, {
+      onText: () => {},
+      signal: controller.signal,
+      provider,
+      profile: DEFAULT_PROFILES[0],
+      sourcePreferences: EMPTY_SOURCE_PREFERENCES,
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    const outcome = await settle(promise, 60000);
+    expect((outcome as { error?: Error }).error?.name).toBe("AbortError");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("流中断重试前先清空已显示的文本", async () => {
+    let attempt = 0;
+    const texts: string[] = [];
+    const provider: LLMProvider = {
+      ...mockProvider([REPLY]).provider,
+      async *stream() {
+        attempt++;
+        yield { text: "部分" };
+        if (attempt === 1) throw new TypeError("Failed to fetch");
+        yield { text: "完整" };
+      },
+    };
+    const outcome = await settle(analyzeRepairIssueStream("开机无输出", undefined, undefined, {
+      onText: text => texts.push(text),
+      provider,
+      profile: DEFAULT_PROFILES[0],
+      sourcePreferences: EMPTY_SOURCE_PREFERENCES,
+    }), 60000);
+    expect(texts).toEqual(["部分", "", "部分", "部分完整"]);
+    expect("value" in outcome && outcome.value.rawText).toBe("部分完整");
+  });
+});
\ No newline at end of file
@@ -1,88 +1,302 @@
-import { GoogleGenAI } from "@google/genai";
-import { RepairAnalysis } from "../types";
+import { DocumentExcerpt, FollowUpTurn, GroundingMetadata, PromptProfile, RepairAnalysis, SourcePreferences } from "../types";
+import { REPORT_FORMAT_INSTRUCTION, extractReport, stripReportBlock } from "./reportParser";
+import { ChatMessage, ChatPart, GenerateRequest, LLMProvider, createProvider } from "./llmProvider";
+import { loadProviderSettings, loadSourcePreferences } from "./settingsService";
+import { applyGrounding, sourceSteeringInstruction, stripCitationMarkers } from "./groundingService";
+import { excerptToPrompt } from "./documentService";
+import { LANGUAGE_REQUIREMENTS, getActiveProfile, renderPromptTemplate } from "./promptProfileService";
+import { DEFAULT_RETRY_OPTIONS, DiagnosisError, RetryOptions, classifyError, isConnectivityCategory, retryDelayFor } from "./errorService";
 
-const SYSTEM_INSTRUCTION = `
-你是一位专业的电子维修助手。
-你的任务是根据用户提供的故障描述（文字或图片），输出一份详尽、专业的维修建议。
+const searchEnabled = (provider: LLMProvider, profile: PromptProfile) => provider.capabilities.search && profile.useSearch;
+
+// 方案中的角色与侧重点在前，工作流、引用规则和结构化报告格式统一追加，保证结果可解析
+const buildSystemInstruction = (provider: LLMProvider, profile: PromptProfile, sources: SourcePreferences) => `
+${profile.systemInstruction}
 
 **工作流**：
 1. **参考知识库**：如果提供了自建案例库上下文，请优先寻找匹配项。
 2. **综合分析**：结合图片视觉信息和文字描述进行诊断。
-3. **联网搜索**：使用 'googleSearch' 工具检索该设备的相关技术参数或常见故障点。
-
-输出要求：简体中文，步骤清晰，安全第一。
-`;
-
-async function generateWithRetry(modelName: string, params: any, retries = 3, initialDelay = 2000) {
-  // 直接从环境变量获取 API Key，不再在服务层抛出缺失异常，交由 SDK 处理
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "" });
-  let delay = initialDelay;
-
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await ai.models.generateContent({
-        model: modelName,
-        ...params
-      });
-    } catch (error: any) {
-      const errorMessage = error.message || "";
-      
-      // 捕获常见的网络或配额错误进行重试
-      const isRetryable = errorMessage.includes("500") || 
-                         errorMessage.includes("fetch") || 
-                         errorMessage.includes("Rpc failed") ||
-                         errorMessage.includes("XHR error");
-
-      if (isRetryable && i < retries - 1) {
-        await new Promise(resolve => setTimeout(resolve, delay));
-        delay *= 2; 
-        continue;
+${searchEnabled(provider, profile)
+  ? `3. **联网搜索**：使用 'googleSearch' 工具检索该设备的相关技术参数或常见故障点。${sourceSteeringInstruction(sources)}`
+  : "3. **离线作答**：当前无法联网检索，请基于自身知识与知识库作答，对不确定的参数明确标注需查阅手册确认。"}
+4. **技术文档**：如果提供了【技术文档】摘录（电路图、维修手册、规格书），其中的位号、测试点和标准值优先于通用经验；凡依据文档给出的建议，都要在该建议后用文档标题中的〔文档名 第N页〕原样标注出处，并填写结构化报告中对应条目的 source 字段。
+
+${LANGUAGE_REQUIREMENTS[profile.language]}
+${REPORT_FORMAT_INSTRUCTION}`;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/** 模型服务不可达（断网、本地服务未启动等），可转为离线诊断 */
+export function isConnectivityError(error: any) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return isConnectivityCategory(classifyError(error).category);
+}
+
+/**
+ * 为一次请求（含全部重试）建立总时限：超时或调用方中止都会中断当前尝试与退避等待。
+ * 超时时以 timeout 类错误结束，调用方中止则保留原始的中止错误。
+ */
+const withDeadline = (signal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new DiagnosisError("timeout", { message: `模型在 ${Math.round(timeoutMs / 1000)} 秒内未完成响应。` }));
+  }, timeoutMs);
+  const forward = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forward();
+  else signal?.addEventListener("abort", forward, { once: true });
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forward);
+    },
+  };
+};
+
+/**
+ * 按错误类别重试：鉴权、安全拦截、参数错误等立即失败；限流按 Retry-After 等待；
+ * 网络与服务端错误指数退避加抖动。onRetry 在每次重试前调用。
+ */
+async function runWithRetry<T>(
+  request: GenerateRequest,
+  attempt: (request: GenerateRequest) => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: () => void
+): Promise<T> {
+  const deadline = withDeadline(request.signal, options.timeoutMs ?? DEFAULT_RETRY_OPTIONS.timeoutMs);
+  try {
+    for (let i = 0; ; i++) {
+      try {
+        return await attempt({ ...request, signal: deadline.signal });
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        if (deadline.timedOut()) throw deadline.signal.reason;
+        const classified = classifyError(error);
+        const delay = retryDelayFor(classified, i, options);
+        if (delay === undefined) throw classified;
+        onRetry?.();
+        await sleep(delay, deadline.signal).catch(() => {
+          throw request.signal?.aborted ? request.signal.reason : deadline.signal.reason;
+        });
       }
-      throw error;
     }
+  } finally {
+    deadline.dispose();
   }
-  throw new Error("诊断请求超时或失败，请稍后重试。");
 }
 
-export const analyzeRepairIssue = async (
+const generateWithRetry = (provider: LLMProvider, request: GenerateRequest, options?: RetryOptions) =>
+  runWithRetry(request, req => provider.generate(req), options);
+
+/**
+ * 流式生成：每收到一段文本即通过 onText 回传「当前累计全文」。
+ * 流中途断开时整体重试，并以空串通知调用方丢弃已显示的部分结果，
+ * 避免新旧两次输出拼接在一起。signal 中止后不再重试，直接抛出。
+ */
+const streamWithRetry = (
+  provider: LLMProvider,
+  request: GenerateRequest,
+  onText: (text: string) => void,
+  options?: RetryOptions
+) => {
+  let emitted = false;
+  return runWithRetry(
+    request,
+    async req => {
+      let text = "";
+      let groundingMetadata: GroundingMetadata | undefined;
+      for await (const chunk of provider.stream(req)) {
+        if (chunk.text) {
+          text += chunk.text;
+          emitted = true;
+          onText(text);
+        }
+        // 检索元数据通常随最后一个分片返回
+        groundingMetadata = chunk.groundingMetadata || groundingMetadata;
+      }
+      return { text, groundingMetadata };
+    },
+    options,
+    () => {
+      if (emitted) onText("");
+      emitted = false;
+    }
+  );
+};
+
+export type ImageInput = { data: string; mimeType: string };
+
+/** 当前后端不支持图片或联网检索时，记录降级说明并在提示词中告知模型 */
+const capabilityNotices = (provider: LLMProvider, profile: PromptProfile, images?: ImageInput[]) => {
+  const notices: string[] = [];
+  if (images && images.length > 0 && !provider.capabilities.images) {
+    notices.push(`当前模型（${provider.model}）不支持图片输入，${images.length} 张照片未发送，仅依据文字描述分析。`);
+  }
+  if (profile.useSearch && !provider.capabilities.search) {
+    notices.push(`当前模型（${provider.model}）不支持联网检索，结果未引用网络资料。`);
+  }
+  return notices;
+};
+
+const buildReportParts = (
+  provider: LLMProvider,
+  profile: PromptProfile,
   description: string,
-  images?: { data: string; mimeType: string }[],
-  knowledgeBase?: string
-): Promise<RepairAnalysis> => {
-  const parts: any[] = [];
+  images?: ImageInput[],
+  knowledgeBase?: string,
+  documents?: DocumentExcerpt[]
+) => {
+  const parts: ChatPart[] = [];
 
-  if (images && images.length > 0) {
+  if (images && images.length > 0 && provider.capabilities.images) {
     images.forEach(img => {
-      parts.push({ inlineData: { data: img.data, mimeType: img.mimeType } });
+      parts.push({ image: { data: img.data, mimeType: img.mimeType } });
     });
   }
 
-  let textPrompt = `【故障上报】\n描述：${description}\n\n`;
+  let context = "";
+  if (images && images.length > 0 && !provider.capabilities.images) {
+    context += `（用户附带了 ${images.length} 张故障照片，但当前模型无法查看图片。）\n\n`;
+  }
   if (knowledgeBase) {
-    textPrompt += `【参考知识库】\n${knowledgeBase}\n\n`;
+    context += `【参考知识库】\n${knowledgeBase}\n\n`;
   }
-  textPrompt += `请给出维修方案。`;
-  parts.push({ text: textPrompt });
-
-  // 切换为 gemini-3-flash-preview
-  const response = await generateWithRetry(
-    "gemini-3-flash-preview", 
-    {
-      contents: { parts: parts },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [{ googleSearch: {} }],
-      },
-    }
-  );
+  if (documents && documents.length > 0) {
+    context += `（已附上 ${documents.length} 段技术文档摘录，引用时请标注出处。）\n\n`;
+  }
+  documents?.forEach((doc, i) => parts.push({ text: excerptToPrompt(doc, i) }));
+  parts.push({ text: renderPromptTemplate(profile.promptTemplate, { description, context }) });
+  return parts;
+};
+
+const buildRequest = (
+  provider: LLMProvider,
+  profile: PromptProfile,
+  sources: SourcePreferences,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): GenerateRequest => ({
+  systemInstruction: buildSystemInstruction(provider, profile, sources),
+  messages,
+  useSearch: searchEnabled(provider, profile),
+  temperature: profile.temperature,
+  signal,
+});
 
-  const text = response.text || "未能生成诊断结果。";
-  const rawChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  const groundingChunks = rawChunks.map(chunk => (chunk.web ? { web: { uri: chunk.web.uri, title: chunk.web.title } } : {}));
+const toAnalysis = (
+  text: string | undefined,
+  groundingMetadata: GroundingMetadata | undefined,
+  notices: string[],
+  sourcePreferences: SourcePreferences
+): RepairAnalysis => {
+  const { markdown, report } = extractReport(text || "");
+  // 引用标记只插入 Markdown 正文，结构化报告已在上一步剥离
+  const grounded = applyGrounding(markdown, groundingMetadata, sourcePreferences);
 
   return {
-    diagnosis: "Analysis Complete",
-    rawText: text,
-    sources: groundingChunks,
+    diagnosis: report?.summary || "Analysis Complete",
+    rawText: grounded.text || "未能生成诊断结果。",
+    sources: grounded.sources,
+    searchQueries: grounded.searchQueries.length > 0 ? grounded.searchQueries : undefined,
+    report,
+    notices: notices.length > 0 ? notices : undefined,
   };
 };
+
+/** 按当前设置创建模型后端 */
+export const getActiveProvider = (): LLMProvider => createProvider(loadProviderSettings());
+
+export const analyzeRepairIssue = async (
+  description: string,
+  images?: ImageInput[],
+  knowledgeBase?: string,
+  provider: LLMProvider = getActiveProvider(),
+  documents?: DocumentExcerpt[],
+  profile: PromptProfile = getActiveProfile(),
+  sourcePreferences: SourcePreferences = loadSourcePreferences()
+): Promise<RepairAnalysis> => {
+  const messages: ChatMessage[] = [{ role: "user", parts: buildReportParts(provider, profile, description, images, knowledgeBase, documents) }];
+  const response = await generateWithRetry(provider, buildRequest(provider, profile, sourcePreferences, messages));
+  return toAnalysis(response.text, response.groundingMetadata, capabilityNotices(provider, profile, images), sourcePreferences);
+};
+
+export interface StreamOptions {
+  /** 每次收到新内容时回传累计全文；重试时会先回传空串 */
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+  provider?: LLMProvider;
+  /** 随首次诊断发送的技术文档摘录 */
+  documents?: DocumentExcerpt[];
+  /** 提示词方案，缺省时使用设置中选定的方案 */
+  profile?: PromptProfile;
+  /** 联网来源偏好，缺省时读取设置 */
+  sourcePreferences?: SourcePreferences;
+}
+
+export const analyzeRepairIssueStream = async (
+  description: string,
+  images: ImageInput[] | undefined,
+  knowledgeBase: string | undefined,
+  options: StreamOptions
+): Promise<RepairAnalysis> => {
+  const provider = options.provider || getActiveProvider();
+  const profile = options.profile || getActiveProfile();
+  const sourcePreferences = options.sourcePreferences || loadSourcePreferences();
+  const messages: ChatMessage[] = [{ role: "user", parts: buildReportParts(provider, profile, description, images, knowledgeBase, options.documents) }];
+  const { text, groundingMetadata } = await streamWithRetry(
+    provider,
+    buildRequest(provider, profile, sourcePreferences, messages, options.signal),
+    text => options.onText(stripReportBlock(text))
+  );
+  return toAnalysis(text, groundingMetadata, capabilityNotices(provider, profile, images), sourcePreferences);
+};
+
+export interface ConversationContext {
+  description: string;
+  images?: ImageInput[];
+  knowledgeBase?: string;
+  documents?: DocumentExcerpt[];
+  /** 首次诊断给出的维修方案 */
+  initialAnswer: string;
+}
+
+/**
+ * 追问：把原始故障上报（描述、图片、知识库）、首次方案和此前的追问回答
+ * 按多轮对话顺序交给模型，使其能基于技术员的实测结果修正判断。
+ */
+export const askFollowUpStream = async (
+  context: ConversationContext,
+  turns: FollowUpTurn[],
+  question: string,
+  options: StreamOptions
+): Promise<RepairAnalysis> => {
+  const provider = options.provider || getActiveProvider();
+  const profile = options.profile || getActiveProfile();
+  const sourcePreferences = options.sourcePreferences || loadSourcePreferences();
+  const messages: ChatMessage[] = [
+    { role: "user", parts: buildReportParts(provider, profile, context.description, context.images, context.knowledgeBase, context.documents) },
+    { role: "model", parts: [{ text: stripCitationMarkers(context.initialAnswer) }] },
+  ];
+  turns.forEach(turn => {
+    messages.push({ role: "user", parts: [{ text: turn.question }] });
+    messages.push({ role: "model", parts: [{ text: stripCitationMarkers(turn.answer) }] });
+  });
+  messages.push({ role: "user", parts: [{ text: question }] });
+
+  const { text, groundingMetadata } = await streamWithRetry(
+    provider,
+    buildRequest(provider, profile, sourcePreferences, messages, options.signal),
+    text => options.onText(stripReportBlock(text))
+  );
+  return toAnalysis(text, groundingMetadata, [], sourcePreferences);
+};
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { GroundingChunk, GroundingMetadata, GroundingSupport, SourcePreferences } from "../types";
+
+// 联网检索来源整理：按可信/屏蔽站点过滤、按站点与标题去重，并依据 groundingSupports
+// 在正文对应语句后插入 [^n] 引用标记（n 为整理后来源列表中的序号，从 1 开始）。
+export const EMPTY_SOURCE_PREFERENCES: SourcePreferences = {
+  preferredDomains: [],
+  blockedDomains: [],
+  onlyPreferred: false,
+};
+
+const CITATION_MARKER = /\[\^\d{1,3}\]/g;
+const REDIRECT_HOST = /(^|\.)vertexaisearch\.cloud\.google\.com$/;
+const DOMAIN_LIKE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+/** 把用户输入的域名或网址规范为小写主机名，去掉协议、路径和 www. 前缀 */
+export const normalizeDomain = (value: string) =>
+  value.trim().toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/[/?#].*$/, "").replace(/^www\./, "");
+
+/** 多行或逗号分隔的域名列表 */
+export const parseDomainList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,，;；]+/).map(normalizeDomain).filter(Boolean)));
+
+/** Gemini 返回的是检索跳转地址，真实站点只出现在标题中 */
+export const sourceDomain = (chunk: GroundingChunk): string | undefined => {
+  if (!chunk.web?.uri) return undefined;
+  let host = "";
+  try {
+    host = new URL(chunk.web.uri).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  const title = chunk.web.title?.trim() || "";
+  if (REDIRECT_HOST.test(host) && DOMAIN_LIKE.test(title)) return normalizeDomain(title);
+  return normalizeDomain(host);
+};
+
+/**
+ * 来源去重用的键：站点加规范化的标题。Gemini 每次回答给出的跳转地址都不同，
+ * 按链接去重无法合并同一来源。
+ */
+export const sourceKey = (chunk: GroundingChunk): string => {
+  const domain = sourceDomain(chunk);
+  if (!domain) return chunk.web?.uri || "";
+  const title = (chunk.web?.title || "").trim().toLowerCase().replace(/\s+/g, " ");
+  return `${domain}|${normalizeDomain(title) === domain ? "" : title}`;
+};
+
+/** 子域名也算命中，如 ti.com 匹配 e2e.ti.com */
+export const matchesDomain = (domain: string | undefined, patterns: string[]) =>
+  !!domain && patterns.some(p => domain === p || domain.endsWith(`.${p}`));
+
+/** 拼接进系统提示词，引导模型优先检索可信站点 */
+export const sourceSteeringInstruction = (prefs: SourcePreferences): string => {
+  const lines: string[] = [];
+  if (prefs.preferredDomains.length > 0) {
+    lines.push(`联网检索时优先参考以下站点：${prefs.preferredDomains.join("、")}${prefs.onlyPreferred ? "，其他站点的资料不会被采用" : ""}。`);
+  }
+  if (prefs.blockedDomains.length > 0) {
+    lines.push(`不要引用以下站点的内容：${prefs.blockedDomains.join("、")}。`);
+  }
+  return lines.join("\n");
+};
+
+/** 正文中的引用标记只用于展示，继续对话时去掉 */
+export const stripCitationMarkers = (text: string) => text.replace(CITATION_MARKER, "");
+
+const utf8Length = (codePoint: number) => (codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4);
+
+/** groundingSupports 的偏移按 UTF-8 字节计，换算为 JS 字符串下标 */
+export const byteOffsetToIndex = (text: string, byteOffset: number): number => {
+  let bytes = 0;
+  let index = 0;
+  for (const ch of text) {
+    if (bytes >= byteOffset) break;
+    bytes += utf8Length(ch.codePointAt(0)!);
+    index += ch.length;
+  }
+  return index;
+};
+
+/**
+ * 定位引用语句的结尾。优先用字节偏移，并以 segment.text 校验；
+ * 偏移对不上（如正文开头被裁剪过）时退回按原文查找。
+ */
+const segmentEnd = (text: string, support: GroundingSupport): number | undefined => {
+  const segment = support.segment;
+  if (!segment) return undefined;
+  const quote = segment.text?.trim();
+  if (segment.endIndex !== undefined) {
+    const end = byteOffsetToIndex(text, segment.endIndex);
+    if (!quote || text.slice(0, end).trimEnd().endsWith(quote)) return end;
+  }
+  if (!quote) return undefined;
+  const found = text.indexOf(quote);
+  return found === -1 ? undefined : found + quote.length;
+};
+
+export interface GroundedText {
+  text: string;
+  sources: GroundingChunk[];
+  searchQueries: string[];
+}
+
+/**
+ * 整理检索结果：屏蔽站点与（仅可信模式下的）非可信站点被丢弃，同站点同标题的来源合并，
+ * 可信站点排在前面；随后把引用标记插入 text。被丢弃来源对应的标记不会出现。
+ */
+export const applyGrounding = (
+  text: string,
+  metadata: GroundingMetadata | undefined,
+  prefs: SourcePreferences = EMPTY_SOURCE_PREFERENCES
+): GroundedText => {
+  const chunks = metadata?.groundingChunks || [];
+
+  const unique: { key: string; chunk: GroundingChunk; chunkIndices: number[] }[] = [];
+  chunks.forEach((chunk, i) => {
+    if (!chunk.web?.uri) return;
+    const domain = sourceDomain(chunk);
+    if (matchesDomain(domain, prefs.blockedDomains)) return;
+    const preferred = matchesDomain(domain, prefs.preferredDomains);
+    if (prefs.onlyPreferred && prefs.preferredDomains.length > 0 && !preferred) return;
+    const key = sourceKey(chunk);
+    const existing = unique.find(u => u.key === key);
+    if (existing) {
+      existing.chunkIndices.push(i);
+      return;
+    }
+    unique.push({
+      key,
+      chunk: { web: { uri: chunk.web.uri, title: chunk.web.title || domain || chunk.web.uri, domain }, preferred: preferred || undefined },
+      chunkIndices: [i],
+    });
+  });
+
+  // sort 是稳定排序，可信站点之间保持模型给出的相关性顺序
+  unique.sort((a, b) => Number(!!b.chunk.preferred) - Number(!!a.chunk.preferred));
+  const numberOf = new Map<number, number>();
+  unique.forEach((u, n) => u.chunkIndices.forEach(i => numberOf.set(i, n + 1)));
+
+  const markers = new Map<number, Set<number>>();
+  (metadata?.groundingSupports || []).forEach(support => {
+    const numbers = (support.groundingChunkIndices || []).map(i => numberOf.get(i)).filter((n): n is number => n !== undefined);
+    if (numbers.length === 0) return;
+    const end = segmentEnd(text, support);
+    if (end === undefined || end > text.length) return;
+    const set = markers.get(end) || new Set<number>();
+    numbers.forEach(n => set.add(n));
+    markers.set(end, set);
+  });
+
+  let result = text;
+  Array.from(markers.entries())
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([position, numbers]) => {
+      const label = Array.from(numbers).sort((a, b) => a - b).map(n => `[^${n}]`).join("");
+      result = result.slice(0, position) + label + result.slice(position);
+    });
+
+  return {
+    text: result,
+    sources: unique.map(u => u.chunk),
+    searchQueries: Array.from(new Set((metadata?.webSearchQueries || []).map(q => q.trim()).filter(Boolean))),
+  };
+};
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { ImageAttachment } from "../types";
+
+// 故障照片预处理：纠正 EXIF 方向、限制分辨率并压缩为 JPEG，保证发送给模型的总体积可控
+export const MAX_IMAGES = 8;
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+/** 单次诊断所有照片的 base64 总长度上限（约 3MB 原始数据） */
+export const IMAGE_PAYLOAD_BUDGET = 4 * 1024 * 1024;
+// 压缩到预算内时的最低质量与最小边长，再往下照片就看不清元件丝印了
+const MIN_QUALITY = 0.5;
+const MIN_DIMENSION = 640;
+
+export const newImageId = () => `img-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const payloadSize = (images: ImageAttachment[]) => images.reduce((sum, img) => sum + img.data.length, 0);
+
+export const toDataUrl = (img: ImageAttachment) => `data:${img.mimeType};base64,${img.data}`;
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/** 缩放后绘制到画布 */
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number) => {
+  const size = scaleToFit(width, height, maxDimension);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d")!;
+  // 透明 PNG 转 JPEG 时背景默认为黑色，先铺白底
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+export const canvasToAttachment = (canvas: HTMLCanvasElement, id = newImageId(), quality = JPEG_QUALITY): ImageAttachment => ({
+  id,
+  data: canvas.toDataURL("image/jpeg", quality).split(",")[1],
+  mimeType: "image/jpeg",
+});
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("图片无法解码"));
+    img.src = src;
+  });
+
+/**
+ * 读取用户选择或拍摄的图片文件：纠正方向、缩放到 MAX_IMAGE_DIMENSION 以内并压缩为 JPEG。
+ * 方向由浏览器按 EXIF 自动纠正（createImageBitmap 的 from-image，<img> 解码同样如此）。
+ */
+export const prepareImageFile = async (file: File, maxDimension = MAX_IMAGE_DIMENSION): Promise<ImageAttachment> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+      const canvas = drawScaled(bitmap, bitmap.width, bitmap.height, maxDimension);
+      bitmap.close();
+      return canvasToAttachment(canvas);
+    } catch {
+      // 部分浏览器不支持该格式，改用 <img> 解码
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImageElement(url);
+    return canvasToAttachment(drawScaled(img, img.naturalWidth, img.naturalHeight, maxDimension));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** 重新编码一张已处理的照片（缩小尺寸和/或降低质量） */
+const recompress = async (image: ImageAttachment, maxDimension: number, quality: number): Promise<ImageAttachment> => {
+  const img = await loadImageElement(toDataUrl(image));
+  const canvas = drawScaled(img, img.naturalWidth, img.naturalHeight, maxDimension);
+  return canvasToAttachment(canvas, image.id, quality);
+};
+
+/**
+ * 总体积超出预算时，逐轮降低质量和尺寸重新压缩所有照片；
+ * 达到下限仍超出时返回尽力压缩后的结果，由调用方决定是否提示。
+ */
+export const fitImagesToBudget = async (images: ImageAttachment[], budget = IMAGE_PAYLOAD_BUDGET): Promise<ImageAttachment[]> => {
+  if (payloadSize(images) <= budget) return images;
+  let quality = JPEG_QUALITY;
+  let dimension = MAX_IMAGE_DIMENSION;
+  let result = images;
+  while (payloadSize(result) > budget && (quality > MIN_QUALITY || dimension > MIN_DIMENSION)) {
+    // 体积约与边长平方成正比，先按比例缩边，再逐步降质量
+    const ratio = Math.sqrt(budget / payloadSize(result));
+    dimension = Math.max(MIN_DIMENSION, Math.floor(dimension * Math.min(0.9, ratio)));
+    quality = Math.max(MIN_QUALITY, quality - 0.1);
+    result = await Promise.all(images.map(img => recompress(img, dimension, quality)));
+  }
+  return result;
+};
\ No newline at end of file
@@ -0,0 +1,241 @@
+import * as XLSX from 'xlsx';
+import { LibraryItem } from '../types';
+import { downloadBlob } from './downloadService';
+
+// 案例库导入/导出。导出时使用的列名都在导入时可识别的别名列表中，保证文件可以原样再导入。
+export type LibraryField =
+  | 'name'
+  | 'model'
+  | 'category'
+  | 'description'
+  | 'analysis'
+  | 'date'
+  | 'technician'
+  | 'rootCause'
+  | 'aiAssisted'
+  | 'verified';
+
+/** 字段 → 源表格列名 */
+export type ColumnMapping = Partial<Record<LibraryField, string>>;
+
+export const FIELD_LABELS: Record<LibraryField, string> = {
+  name: '设备名称',
+  model: '型号',
+  category: '分类',
+  description: '故障现象',
+  analysis: '维修方案',
+  date: '日期',
+  technician: '维修人',
+  rootCause: '故障元件',
+  aiAssisted: 'AI 辅助',
+  verified: '已验证',
+};
+
+export const DEFAULT_CATEGORY = '维修存档';
+
+export const COLUMN_ALIASES: Record<LibraryField, string[]> = {
+  name: ['name', '设备', '设备名称', 'title'],
+  model: ['model', '型号', '机型'],
+  category: ['category', '分类', '类别'],
+  description: ['description', '描述', '故障', '现象', '故障现象', 'issue'],
+  analysis: ['analysis', '方案', '处理', '维修方案', 'solution'],
+  date: ['date', '日期', '维修日期'],
+  technician: ['technician', '维修人', '维修员', '技术员'],
+  rootCause: ['rootcause', '故障元件', '根因元件'],
+  aiAssisted: ['aiassisted', 'ai辅助'],
+  verified: ['verified', '已验证'],
+};
+
+const EXPORT_HEADERS: Record<LibraryField, string> = {
+  name: '设备',
+  model: '型号',
+  category: '分类',
+  description: '描述',
+  analysis: '方案',
+  date: '日期',
+  technician: '维修人',
+  rootCause: '故障元件',
+  aiAssisted: 'AI辅助',
+  verified: '已验证',
+};
+
+const parseFlag = (value?: string) => !!value && ['1', 'true', 'yes', 'y', '是'].includes(value.toLowerCase());
+
+export interface ImportSheet {
+  name: string;
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+export const sheetsFromWorkbook = (workbook: XLSX.WorkBook): ImportSheet[] =>
+  workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    const headerRow = (XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 })[0] || []) as any[];
+    return {
+      name,
+      headers: headerRow.map(h => String(h ?? '').trim()).filter(Boolean),
+      // raw: false 让日期等单元格保留表格中显示的文本
+      rows: XLSX.utils.sheet_to_json<Record<string, any>>(sheet, { raw: false, defval: '' }),
+    };
+  });
+
+export const sheetFromJson = (rows: Record<string, any>[]): ImportSheet => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(k => headers.add(k)));
+  return { name: 'JSON', headers: Array.from(headers), rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  (Object.keys(COLUMN_ALIASES) as LibraryField[]).forEach(field => {
+    const match = headers.find(h => COLUMN_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+export type ImportRowStatus = 'ok' | 'error' | 'duplicate';
+
+export interface ImportRowResult {
+  sheet: string;
+  /** 表格中的行号（含表头，从 1 开始） */
+  rowNumber: number;
+  status: ImportRowStatus;
+  messages: string[];
+  item?: LibraryItem;
+}
+
+const duplicateKey = (item: Pick<LibraryItem, 'name' | 'model' | 'description'>) =>
+  `${item.model || item.name}|${item.description}`.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * 按列映射把源数据转换为案例，并给出逐行校验结果：
+ * - 缺少故障现象的行标记为 error，不会导入；
+ * - 与现有案例库或本次导入中前面的行（设备/型号 + 现象）重复的标记为 duplicate。
+ */
+export const buildImportPreview = (
+  sheets: ImportSheet[],
+  mapping: ColumnMapping,
+  existing: LibraryItem[] = []
+): ImportRowResult[] => {
+  const seen = new Set(existing.map(duplicateKey));
+  const results: ImportRowResult[] = [];
+  const stamp = Date.now();
+
+  sheets.forEach(sheet => {
+    sheet.rows.forEach((row, index) => {
+      const read = (field: LibraryField) => {
+        const column = mapping[field];
+        if (!column || row[column] === undefined || row[column] === null) return undefined;
+        const value = String(row[column]).trim();
+        return value || undefined;
+      };
+
+      const rowNumber = index + 2;
+      const messages: string[] = [];
+      const description = read('description');
+      if (!description) {
+        results.push({ sheet: sheet.name, rowNumber, status: 'error', messages: ['缺少故障现象'] });
+        return;
+      }
+
+      const model = read('model');
+      const name = read('name') || model;
+      if (!name) messages.push('缺少设备名称，记为“未知设备”');
+
+      const item: LibraryItem = {
+        id: `lib-${stamp}-${results.length}`,
+        name: name || '未知设备',
+        model,
+        category: read('category') || DEFAULT_CATEGORY,
+        description,
+        analysis: read('analysis'),
+        date: read('date'),
+        technician: read('technician'),
+        rootCause: read('rootCause'),
+        aiAssisted: parseFlag(read('aiAssisted')),
+        verified: parseFlag(read('verified')),
+      };
+
+      const key = duplicateKey(item);
+      if (seen.has(key)) {
+        results.push({ sheet: sheet.name, rowNumber, status: 'duplicate', messages: [...messages, '与已有案例重复'], item });
+        return;
+      }
+      seen.add(key);
+      results.push({ sheet: sheet.name, rowNumber, status: 'ok', messages, item });
+    });
+  });
+
+  return results;
+};
+
+export type LibrarySort = 'default' | 'name' | 'date' | 'category';
+export type SolutionFilter = 'all' | 'with' | 'without';
+
+export interface LibraryQuery {
+  text: string;
+  category: string;
+  model: string;
+  solution: SolutionFilter;
+  sort: LibrarySort;
+}
+
+export const EMPTY_LIBRARY_QUERY: LibraryQuery = { text: '', category: '', model: '', solution: 'all', sort: 'default' };
+
+const parseDate = (value?: string) => (value ? Date.parse(value.replace(/\./g, '-')) || 0 : 0);
+
+/** 空格分隔的多个关键词需同时命中（名称、型号、现象、方案、故障元件任一字段） */
+export const filterLibrary = (items: LibraryItem[], query: LibraryQuery): LibraryItem[] => {
+  const keywords = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const filtered = items.filter(item => {
+    if (query.category && item.category !== query.category) return false;
+    if (query.model && (item.model || item.name) !== query.model) return false;
+    if (query.solution === 'with' && !item.analysis) return false;
+    if (query.solution === 'without' && item.analysis) return false;
+    if (keywords.length === 0) return true;
+    const haystack = [item.name, item.model, item.description, item.analysis, item.rootCause]
+      .filter(Boolean).join(' ').toLowerCase();
+    return keywords.every(k => haystack.includes(k));
+  });
+
+  switch (query.sort) {
+    case 'name':
+      return filtered.sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'));
+    case 'date':
+      return filtered.sort((a, b) => parseDate(b.date) - parseDate(a.date));
+    case 'category':
+      return filtered.sort((a, b) => a.category.localeCompare(b.category, 'zh-CN'));
+    default:
+      return filtered;
+  }
+};
+
+export const libraryToRows = (items: LibraryItem[]): Record<string, string>[] =>
+  items.map(item => ({
+    [EXPORT_HEADERS.name]: item.name,
+    [EXPORT_HEADERS.model]: item.model || '',
+    [EXPORT_HEADERS.category]: item.category,
+    [EXPORT_HEADERS.description]: item.description,
+    [EXPORT_HEADERS.analysis]: item.analysis || '',
+    [EXPORT_HEADERS.date]: item.date || '',
+    [EXPORT_HEADERS.technician]: item.technician || '',
+    [EXPORT_HEADERS.rootCause]: item.rootCause || '',
+    [EXPORT_HEADERS.aiAssisted]: item.aiAssisted ? '是' : '否',
+    [EXPORT_HEADERS.verified]: item.verified ? '是' : '否',
+  }));
+
+const exportFileName = (ext: string) => `案例库-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+export const exportLibraryToXlsx = (items: LibraryItem[]) => {
+  const sheet = XLSX.utils.json_to_sheet(libraryToRows(items));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '案例库');
+  XLSX.writeFile(workbook, exportFileName('xlsx'));
+};
+
+export const exportLibraryToJson = (items: LibraryItem[]) => {
+  const blob = new Blob([JSON.stringify(libraryToRows(items), null, 2)], { type: 'application/json;charset=utf-8' });
+  downloadBlob(blob, exportFileName('json'));
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { GroundingMetadata, ProviderId, ProviderSettings } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+
+// 模型后端抽象：诊断流程只依赖这里的统一消息格式，具体调用由各 provider 实现
+export interface ChatPart {
+  text?: string;
+  image?: { data: string; mimeType: string };
+}
+
+export interface ChatMessage {
+  role: "user" | "model";
+  parts: ChatPart[];
+}
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  messages: ChatMessage[];
+  /** 是否启用联网检索；provider 不支持时忽略 */
+  useSearch: boolean;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface StreamChunk {
+  text?: string;
+  groundingMetadata?: GroundingMetadata;
+}
+
+export interface ProviderCapabilities {
+  search: boolean;
+  images: boolean;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  generate(request: GenerateRequest): Promise<{ text: string; groundingMetadata?: GroundingMetadata }>;
+  stream(request: GenerateRequest): AsyncIterable<StreamChunk>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI 兼容接口（llama.cpp / Ollama 等）",
+};
+
+/** 切换后端时预填的模型名称 */
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: "gemini-3-flash-preview",
+  openai: "qwen2.5:7b",
+};
+
+export const DEFAULT_SETTINGS: ProviderSettings = {
+  provider: "gemini",
+  model: "gemini-3-flash-preview",
+};
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAiCompatibleProvider(settings);
+    case "gemini":
+    default:
+      return createGeminiProvider(settings);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { BlockNode, InlineNode, parseInline, parseMarkdown } from "./markdownParser";
+
+// 用接近模型真实输出的维修方案文本校验解析结果
+const DIAGNOSIS = `### 🔍 故障分析
+
+根据描述，**主板通电后状态灯不亮**，最可能是 \`5V_STBY\` 待机供电异常[^1]。
+
+| 测试点 | 标准值 | 说明 |
+|:-------|:------:|-----:|
+| TP3 | 5.0V | 待机电源 |
+| TP7 | 3.3V | MCU 供电 \\| LDO 输出 |
+
+1. 断电检测
+   1. 测量 F1 通断
+   2. 测量 Q3 的 D-S 是否击穿
+2. 上电检测
+
+---
+
+\`\`\`text
+TP3 = 0V
+\`\`\`
+
+<script>alert(1)</script>`;
+
+const textOf = (nodes: InlineNode[]): string =>
+  nodes.map(n => (n.type === "text" || n.type === "code" ? n.value : "children" in n ? textOf(n.children) : "")).join("");
+
+const byType = <T extends BlockNode["type"]>(blocks: BlockNode[], type: T) =>
+  blocks.filter((b): b is Extract<BlockNode, { type: T }> => b.type === type);
+
+describe("parseMarkdown", () => {
+  const blocks = parseMarkdown(DIAGNOSIS);
+
+  it("解析标题、段落与分隔线", () => {
+    expect(blocks[0]).toMatchObject({ type: "heading", level: 3 });
+    expect(byType(blocks, "hr")).toHaveLength(1);
+  });
+
+  it("表格保留列对齐方式与转义的竖线", () => {
+    const [table] = byType(blocks, "table");
+    expect(table.align).toEqual(["left", "center", "right"]);
+    expect(table.header.map(textOf)).toEqual(["测试点", "标准值", "说明"]);
+    expect(table.rows).toHaveLength(2);
+    expect(textOf(table.rows[1][2])).toBe("MCU 供电 | LDO 输出");
+  });
+
+  it("解析嵌套的有序列表", () => {
+    const [list] = byType(blocks, "list");
+    expect(list).toMatchObject({ ordered: true, start: 1 });
+    expect(list.items).toHaveLength(2);
+    const [nested] = byType(list.items[0], "list");
+    expect(nested.ordered).toBe(true);
+    expect(nested.items.map(item => textOf((item[0] as Extract<BlockNode, { type: "paragraph" }>).children))).toEqual([
+      "测量 F1 通断",
+      "测量 Q3 的 D-S 是否击穿",
+    ]);
+  });
+
+  it("代码块原样保留内容与语言", () => {
+    expect(byType(blocks, "code")).toEqual([{ type: "code", lang: "text", value: "TP3 = 0V" }]);
+  });
+
+  it("原始 HTML 作为文本保留", () => {
+    const last = blocks[blocks.length - 1];
+    expect(last.type).toBe("paragraph");
+    expect(textOf((last as Extract<BlockNode, { type: "paragraph" }>).children)).toBe("<script>alert(1)</script>");
+  });
+
+  it("有序列表的起始序号取自第一项", () => {
+    expect(parseMarkdown("3. 更换 C12\n4. 复测")[0]).toMatchObject({ type: "list", ordered: true, start: 3 });
+  });
+});
+
+describe("parseInline", () => {
+  it("解析加粗、行内代码与引用标记", () => {
+    const nodes = parseInline("**状态灯不亮**，检查 `5V_STBY`[^1][^12]");
+    expect(nodes).toEqual([
+      { type: "strong", children: [{ type: "text", value: "状态灯不亮" }] },
+      { type: "text", value: "，检查 " },
+      { type: "code", value: "5V_STBY" },
+      { type: "citation", index: 1 },
+      { type: "citation", index: 12 },
+    ]);
+  });
+
+  it("保留 http 链接，丢弃 javascript: 链接但保留文字", () => {
+    expect(parseInline("[规格书](https://www.ti.com/lit/ds/symlink/tl431.pdf)")).toEqual([
+      { type: "link", href: "https://www.ti.com/lit/ds/symlink/tl431.pdf", children: [{ type: "text", value: "规格书" }] },
+    ]);
+    expect(parseInline("[点我](javascript:alert(1))")).toEqual([{ type: "text", value: "点我" }]);
+  });
+
+  it("位号中的下划线不被当作斜体", () => {
+    expect(parseInline("测量 V_OUT_5V 与 *GND*")).toEqual([
+      { type: "text", value: "测量 V_OUT_5V 与 " },
+      { type: "em", children: [{ type: "text", value: "GND" }] },
+    ]);
+  });
+
+  it("行内 HTML 原样作为文本", () => {
+    expect(parseInline('<img src=x onerror="alert(1)">')).toEqual([{ type: "text", value: '<img src=x onerror="alert(1)">' }]);
+  });
+});
\ No newline at end of file
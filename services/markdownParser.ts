@@ -0,0 +1,343 @@
+// 轻量 Markdown 解析器：先切分块级结构，再解析行内格式，输出纯数据节点交给 React 渲染。
+// 不生成 HTML 字符串，模型输出中的任何标签都只会作为文本显示。
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'citation'; index: number }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'code'; lang?: string; value: string }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'hr' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+const AUTOLINK = /^https?:\/\/[^\s<>()\u3000-\u303f\uff00-\uffef]+/;
+const CITATION = /^\[\^(\d{1,3})\]/;
+const ESCAPABLE = /[\\`*_{}\[\]()#+\-.!|>~]/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const stripIndent = (line: string, amount: number) => {
+  let i = 0;
+  let removed = 0;
+  while (i < line.length && removed < amount && (line[i] === ' ' || line[i] === '\t')) {
+    removed += line[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+};
+
+// ---------------- 行内 ----------------
+
+const findClosing = (text: string, marker: string, from: number) => {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') { i += 2; continue; }
+    if (text.startsWith(marker, i)) {
+      // 单个 * / _ 不能与双标记混淆
+      if (marker.length === 1 && text[i + 1] === marker) { i += 2; continue; }
+      return i;
+    }
+    i++;
+  }
+  return -1;
+};
+
+// 链接地址中允许成对出现的括号，如 https://en.wikipedia.org/wiki/MOSFET_(disambiguation)
+const findUrlEnd = (text: string, from: number) => {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\n') return -1;
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+};
+
+const isWordChar = (ch?: string) => !!ch && /[A-Za-z0-9]/.test(ch);
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', value: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + run.length, end).trim() });
+        i = end + run.length;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && text[i + 1] === ch) {
+      const marker = ch + ch;
+      const end = findClosing(text, marker, i + 2);
+      if (end > i + 2) {
+        flush();
+        nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && text[i + 1] !== ch && text[i + 1] !== ' ' && !(ch === '_' && isWordChar(text[i - 1]))) {
+      const end = findClosing(text, ch, i + 1);
+      if (end > i + 1 && text[end - 1] !== ' ' && !(ch === '_' && isWordChar(text[end + 1]))) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      // 联网来源引用标记 [^n]，由 groundingSupports 插入
+      const citation = text.slice(i).match(CITATION);
+      if (citation) {
+        flush();
+        nodes.push({ type: 'citation', index: Number(citation[1]) });
+        i += citation[0].length;
+        continue;
+      }
+      const close = findClosing(text, ']', i + 1);
+      if (close !== -1 && text[close + 1] === '(') {
+        const urlEnd = findUrlEnd(text, close + 2);
+        if (urlEnd !== -1) {
+          const href = text.slice(close + 2, urlEnd).trim().split(/\s+/)[0];
+          const label = parseInline(text.slice(i + 1, close));
+          flush();
+          if (SAFE_URL.test(href)) nodes.push({ type: 'link', href, children: label });
+          else nodes.push(...label);
+          i = urlEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    if (ch === 'h' && !isWordChar(text[i - 1])) {
+      const match = text.slice(i).match(AUTOLINK);
+      if (match) {
+        const href = match[0].replace(/[.,;:!?]+$/, '');
+        flush();
+        nodes.push({ type: 'link', href, children: [{ type: 'text', value: href }] });
+        i += href.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// ---------------- 块级 ----------------
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') { current += '|'; i++; continue; }
+    if (row[i] === '|') { cells.push(current.trim()); current = ''; continue; }
+    current += row[i];
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || HR.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line) || isTableStart(lines, i);
+};
+
+const parseList = (lines: string[], start: number): { node: BlockNode; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: BlockNode[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+    const contentIndent = baseIndent + match[2].length + 1;
+    const itemLines = [match[3]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (line.trim() === '') {
+        // 空行之后仍有缩进内容则属于当前项，否则列表项结束
+        const nextIndex = lines.slice(i + 1).findIndex(l => l.trim() !== '');
+        if (nextIndex === -1) break;
+        const nextLine = lines[i + 1 + nextIndex];
+        if (indentOf(nextLine) <= baseIndent) break;
+        itemLines.push('');
+        i++;
+        continue;
+      }
+      if (indentOf(line) <= baseIndent) {
+        // 无缩进的续行（非新块）视为当前段落的延续
+        const prev = itemLines[itemLines.length - 1];
+        if (prev !== '' && !startsBlock(lines, i)) {
+          itemLines.push(line.trim());
+          i++;
+          continue;
+        }
+        break;
+      }
+      itemLines.push(stripIndent(line, contentIndent));
+      i++;
+    }
+
+    items.push(parseBlocks(itemLines));
+
+    // 同级列表项之间允许空行
+    let j = i;
+    while (j < lines.length && lines[j].trim() === '') j++;
+    const sibling = j < lines.length ? lines[j].match(LIST_ITEM) : null;
+    if (sibling && indentOf(sibling[1]) === baseIndent && /\d/.test(sibling[2]) === ordered) i = j;
+    else break;
+  }
+
+  return { node: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+export const parseBlocks = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: fence[2] || undefined, value: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align: TableAlign[] = splitTableRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(BLOCKQUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { node, next } = parseList(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (content: string): BlockNode[] => parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'));
\ No newline at end of file
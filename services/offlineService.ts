@@ -0,0 +1,26 @@
+import { LibraryItem, LibraryMatch, RepairAnalysis } from "../types";
+
+// 离线诊断：模型不可用时，直接用本地案例库中最相近的存档方案作答
+export const OFFLINE_MIN_SIMILARITY = 0.05;
+export const OFFLINE_LIMIT = 5;
+
+const archiveSection = (item: LibraryItem, heading: string) =>
+  `${heading}\n\n**故障现象**：${item.description}\n\n${item.rootCause ? `**故障元件**：${item.rootCause}\n\n` : ''}---\n\n### 📚 历史存档方案\n\n${item.analysis || '（该案例未记录维修方案）'}`;
+
+/** 单条案例的存档方案展示 */
+export const buildArchiveAnalysis = (item: LibraryItem): RepairAnalysis => ({
+  diagnosis: "Archive",
+  rawText: archiveSection(item, `## ${item.name} - 存档方案`),
+  sources: []
+});
+
+/** 多条相似案例合并为一份仅来自存档的结果，按相似度从高到低排列 */
+export const buildOfflineAnalysis = (matches: LibraryMatch[], reason: string): RepairAnalysis => ({
+  diagnosis: "Archive",
+  rawText: matches.map((m, i) =>
+    archiveSection(m.item, `## 【相似案例 ${i + 1}】${m.item.name} - 存档方案（相似度 ${Math.round(m.similarity * 100)}%）`)
+  ).join('\n\n'),
+  sources: [],
+  references: matches,
+  notices: [`离线模式：${reason}以下内容仅来自本地案例库存档，未经 AI 分析，请结合实际情况判断。`]
+});
\ No newline at end of file
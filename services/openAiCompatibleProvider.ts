@@ -0,0 +1,105 @@
+import { ProviderSettings } from "../types";
+import { GenerateRequest, LLMProvider } from "./llmProvider";
+import { DiagnosisError, httpError } from "./errorService";
+
+// OpenAI 兼容的 /chat/completions 接口，适用于本地 llama.cpp server、Ollama、vLLM 等离线部署
+const toOpenAiMessages = (request: GenerateRequest, supportsImages: boolean) => [
+  { role: "system", content: request.systemInstruction },
+  ...request.messages.map(message => {
+    const role = message.role === "model" ? "assistant" : "user";
+    const hasImages = supportsImages && message.parts.some(p => p.image);
+    if (!hasImages) {
+      return { role, content: message.parts.filter(p => p.text).map(p => p.text).join("\n") };
+    }
+    return {
+      role,
+      content: message.parts.map(part => part.image
+        ? { type: "image_url", image_url: { url: `data:${part.image.mimeType};base64,${part.image.data}` } }
+        : { type: "text", text: part.text || "" }),
+    };
+  }),
+];
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const endpoint = (settings.endpoint || "http://localhost:11434/v1").replace(/\/+$/, "");
+  const model = settings.model;
+  const supportsImages = !!settings.supportsImages;
+
+  const post = async (request: GenerateRequest, stream: boolean) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        stream,
+        temperature: request.temperature,
+        messages: toOpenAiMessages(request, supportsImages),
+      }),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw httpError(response.status, response.statusText, detail.slice(0, 300), response.headers.get("retry-after"));
+    }
+    return response;
+  };
+
+  return {
+    id: "openai",
+    model,
+    capabilities: { search: false, images: supportsImages },
+
+    async generate(request) {
+      const response = await post(request, false);
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      if (choice?.finish_reason === "content_filter" && !choice.message?.content) {
+        throw new DiagnosisError("safety", { detail: "finish_reason: content_filter" });
+      }
+      return { text: choice?.message?.content || "" };
+    },
+
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new DiagnosisError("network", { detail: "响应不支持流式读取" });
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let emitted = false;
+
+      // 服务端推送（SSE）格式：每行 "data: {...}"，以 "data: [DONE]" 结束
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+          let choice: any;
+          try {
+            choice = JSON.parse(payload).choices?.[0];
+          } catch {
+            // 忽略无法解析的心跳或注释行
+            continue;
+          }
+          if (choice?.delta?.content) {
+            emitted = true;
+            yield { text: choice.delta.content };
+          }
+          if (choice?.finish_reason === "content_filter" && !emitted) {
+            throw new DiagnosisError("safety", { detail: "finish_reason: content_filter" });
+          }
+        }
+      }
+    },
+  };
+};
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { PromptLanguage, PromptProfile } from "../types";
+import { downloadBlob } from "./downloadService";
+
+// 提示词方案与模型设置一样体积很小，保存在 localStorage 中
+const PROFILES_KEY = "repair-assistant:prompt-profiles";
+const ACTIVE_PROFILE_KEY = "repair-assistant:active-profile";
+
+export const LANGUAGE_LABELS: Record<PromptLanguage, string> = {
+  zh: "简体中文",
+  en: "English",
+};
+
+/** 各语言的输出要求，追加在系统提示词的工作流之后 */
+export const LANGUAGE_REQUIREMENTS: Record<PromptLanguage, string> = {
+  zh: "输出要求：简体中文，步骤清晰，安全第一。",
+  en: "Output requirements: write the entire answer in English, including every string value in the JSON report; keep component designators, part numbers and measured values unchanged. Clear steps, safety first.",
+};
+
+export const DEFAULT_PROMPT_TEMPLATE = "【故障上报】\n描述：{{description}}\n\n{{context}}请给出维修方案。";
+
+export const DEFAULT_PROFILES: PromptProfile[] = [
+  {
+    id: "default",
+    name: "通用电子维修",
+    systemInstruction: "你是一位专业的电子维修助手。\n你的任务是根据用户提供的故障描述（文字或图片），输出一份详尽、专业的维修建议。",
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    language: "zh",
+    useSearch: true,
+  },
+  {
+    id: "power-supply",
+    name: "电源",
+    productLine: "开关电源 / 适配器 / 充电器",
+    systemInstruction: "你是一位开关电源维修工程师，熟悉反激、正激、LLC 与 PFC 拓扑。\n" +
+      "根据故障描述（文字或图片）给出维修建议，并特别注意：\n" +
+      "- 任何操作前先说明大容量电解电容的放电方法，初级侧测量必须使用隔离变压器；\n" +
+      "- 区分初级侧（热地）与次级侧（冷地），测量点须注明参考地；\n" +
+      "- 更换保险丝前先排查整流桥、开关管与 PFC 管是否击穿，避免再次炸机。",
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    language: "zh",
+    useSearch: true,
+    temperature: 0.4,
+  },
+  {
+    id: "motor-driver",
+    name: "电机驱动",
+    productLine: "变频器 / 伺服驱动 / 电调",
+    systemInstruction: "你是一位电机驱动器维修工程师，熟悉三相逆变桥、栅极驱动、电流采样和霍尔/编码器反馈。\n" +
+      "根据故障描述（文字或图片）给出维修建议，并特别注意：\n" +
+      "- 先确认直流母线电容已放电，再进行任何测量；\n" +
+      "- 上电测试前断开电机，使用限流电源或串联灯泡，防止 IGBT/MOSFET 再次损坏；\n" +
+      "- 功率管损坏时一并检查对应桥臂的栅极电阻、驱动芯片和自举电路。",
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    language: "zh",
+    useSearch: true,
+    temperature: 0.4,
+  },
+  {
+    id: "consumer-board",
+    name: "消费类主板",
+    productLine: "手机 / 平板 / 电视主板",
+    systemInstruction: "你是一位消费电子主板维修工程师，熟悉多路 PMIC 供电、上电时序和 BGA 返修。\n" +
+      "根据故障描述（文字或图片）给出维修建议，并特别注意：\n" +
+      "- 全程做好静电防护，拆装前断开电池；\n" +
+      "- 短路故障先用可调电源限流注入定位发热点，再考虑更换芯片；\n" +
+      "- 涉及热风枪或植锡时注明温度范围，提醒保护周边塑料件与屏蔽罩下的元件。",
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    language: "zh",
+    useSearch: true,
+  },
+  {
+    id: "general-en",
+    name: "General repair (English)",
+    systemInstruction: "You are a professional electronics repair assistant.\nBased on the fault description (text or photos), produce a detailed, practical repair plan for a bench technician.",
+    promptTemplate: "Fault report\nDescription: {{description}}\n\n{{context}}Please provide a repair plan.",
+    language: "en",
+    useSearch: true,
+  },
+];
+
+export const newProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 填充故障上报模板：{{context}} 为知识库、文档等附加信息。
+ * 模板缺少占位符时把对应内容追加到末尾，避免描述被漏发。
+ */
+export const renderPromptTemplate = (template: string, values: { description: string; context: string }) => {
+  let text = template || DEFAULT_PROMPT_TEMPLATE;
+  (["description", "context"] as const).forEach(key => {
+    const placeholder = `{{${key}}}`;
+    text = text.includes(placeholder) ? text.split(placeholder).join(values[key]) : `${text}\n\n${values[key]}`;
+  });
+  return text.trim();
+};
+
+const clampTemperature = (value: any): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(2, Math.max(0, n)) : undefined;
+};
+
+/** 校验单个方案；缺少名称或系统提示词时返回 null */
+const normalizeProfile = (data: any): PromptProfile | null => {
+  if (!data || typeof data !== "object") return null;
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  const systemInstruction = typeof data.systemInstruction === "string" ? data.systemInstruction.trim() : "";
+  if (!name || !systemInstruction) return null;
+  return {
+    id: typeof data.id === "string" && data.id.trim() ? data.id.trim() : newProfileId(),
+    name,
+    productLine: typeof data.productLine === "string" && data.productLine.trim() ? data.productLine.trim() : undefined,
+    systemInstruction,
+    promptTemplate: typeof data.promptTemplate === "string" && data.promptTemplate.trim() ? data.promptTemplate : DEFAULT_PROMPT_TEMPLATE,
+    language: data.language === "en" ? "en" : "zh",
+    useSearch: data.useSearch !== false,
+    temperature: clampTemperature(data.temperature),
+  };
+};
+
+export const loadPromptProfiles = (): PromptProfile[] => {
+  try {
+    const raw = typeof localStorage !== "undefined" ? localStorage.getItem(PROFILES_KEY) : null;
+    const profiles = raw ? (JSON.parse(raw) as any[]).map(normalizeProfile).filter((p): p is PromptProfile => !!p) : [];
+    return profiles.length > 0 ? profiles : DEFAULT_PROFILES;
+  } catch {
+    return DEFAULT_PROFILES;
+  }
+};
+
+export const savePromptProfiles = (profiles: PromptProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (): string => {
+  try {
+    return (typeof localStorage !== "undefined" && localStorage.getItem(ACTIVE_PROFILE_KEY)) || DEFAULT_PROFILES[0].id;
+  } catch {
+    return DEFAULT_PROFILES[0].id;
+  }
+};
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+/** 按 id 查找方案，找不到（已删除）时回退到第一个方案 */
+export const findProfile = (profiles: PromptProfile[], id?: string): PromptProfile =>
+  profiles.find(p => p.id === id) || profiles[0] || DEFAULT_PROFILES[0];
+
+export const getActiveProfile = (): PromptProfile => findProfile(loadPromptProfiles(), loadActiveProfileId());
+
+/**
+ * 解析导入的 JSON（方案数组，或带 profiles 字段的对象），
+ * 与现有方案合并：id 相同的覆盖，其余追加。
+ */
+export const importProfilesFromJson = (json: string, existing: PromptProfile[]): PromptProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("JSON 格式错误");
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : null;
+  if (!list) throw new Error("JSON 内容须为提示词方案数组");
+  const imported = list.map(normalizeProfile).filter((p: PromptProfile | null): p is PromptProfile => !!p);
+  if (imported.length === 0) throw new Error("没有可导入的方案（每个方案至少需要 name 和 systemInstruction）");
+
+  const merged = [...existing];
+  imported.forEach((profile: PromptProfile) => {
+    const index = merged.findIndex(p => p.id === profile.id);
+    if (index >= 0) merged[index] = profile;
+    else merged.push(profile);
+  });
+  return merged;
+};
+
+export const exportProfilesToJson = (profiles: PromptProfile[]) => {
+  const blob = new Blob([JSON.stringify(profiles, null, 2)], { type: "application/json;charset=utf-8" });
+  downloadBlob(blob, `提示词方案-${new Date().toISOString().slice(0, 10)}.json`);
+};
\ No newline at end of file
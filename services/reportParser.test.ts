@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { extractReport, stripReportBlock, validateReport } from "./reportParser";
+
+const fence = (json: string) => "```json\n" + json + "\n```";
+const REPORT = fence(JSON.stringify({ summary: "F1 熔断", probableCauses: [{ cause: "输入过压", likelihood: 0.7 }] }));
+const EXAMPLE = `### 读取故障码\n\n串口返回示例：\n\n${fence('{"code": 12}')}\n\n代码 12 表示过温。`;
+
+describe("extractReport", () => {
+  it("取末尾的 JSON 块作为报告，正文中的 JSON 示例保留", () => {
+    const { markdown, report } = extractReport(`${EXAMPLE}\n\n${REPORT}\n`);
+    expect(report?.summary).toBe("F1 熔断");
+    expect(markdown).toBe(EXAMPLE);
+  });
+
+  it("报告无法解析时正文保持原样", () => {
+    const text = `${EXAMPLE}\n\n${fence('{"summary": "F1')}`;
+    expect(extractReport(text)).toEqual({ markdown: text });
+  });
+
+  it("末尾不是 JSON 块时不提取报告", () => {
+    expect(extractReport(EXAMPLE)).toEqual({ markdown: EXAMPLE });
+  });
+});
+
+describe("validateReport", () => {
+  it("检测步骤按序号排序后重新编号，重复的序号保持原有先后", () => {
+    const report = validateReport({
+      summary: "F1 熔断",
+      testSteps: [{ order: 2, action: "测输出" }, { order: 1, action: "测输入" }, { order: 2, action: "测纹波" }],
+    });
+    expect(report?.testSteps.map(s => [s.order, s.action])).toEqual([[1, "测输入"], [2, "测输出"], [3, "测纹波"]]);
+  });
+});
+
+describe("stripReportBlock", () => {
+  it("流式输出时只隐藏末尾尚未闭合的报告块", () => {
+    expect(stripReportBlock(`${EXAMPLE}\n\n\`\`\`json\n{"summary": "F1`)).toBe(EXAMPLE);
+    expect(stripReportBlock(EXAMPLE)).toBe(EXAMPLE);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { ProbableCause, RepairReport, SuspectedComponent, TestStep } from "../types";
+
+// 模型在 Markdown 方案末尾附带一个 ```json 代码块作为结构化报告。
+// 这里负责把它从正文中剥离并做客户端校验；任何一步失败都返回 undefined，
+// 界面随之回退到原有的 MarkdownRenderer 展示。
+const REPORT_FENCE = "```json";
+
+/**
+ * 定位最后一个 ```json 代码块：正文中可能先出现 JSON 示例，只有位于末尾的块才是报告。
+ * 代码块尚未闭合（流式输出中）时 json 为 undefined；闭合后还有正文则不是报告。
+ */
+const findReportBlock = (text: string): { start: number; json?: string } | undefined => {
+  const start = text.lastIndexOf(REPORT_FENCE);
+  if (start === -1) return undefined;
+  const body = text.slice(start + REPORT_FENCE.length);
+  const end = body.indexOf("```");
+  if (end === -1) return { start };
+  if (body.slice(end + 3).trim()) return undefined;
+  return { start, json: body.slice(0, end) };
+};
+
+/** 结构化报告的字段说明，拼接进系统提示词 */
+export const REPORT_FORMAT_INSTRUCTION = `
+**结构化报告**：在 Markdown 维修方案之后，必须再附上一个 \`\`\`json 代码块（放在回答最末尾），字段如下：
+{
+  "summary": "一句话诊断结论",
+  "probableCauses": [{ "cause": "可能原因", "likelihood": 0.0-1.0 之间的数字, "reasoning": "依据", "source": "引用的技术文档与页码，无则省略" }],
+  "suspectedComponents": [{ "designator": "位号，如 Q3，未知可省略", "part": "元件名称/型号", "reason": "怀疑理由" }],
+  "testSteps": [{ "order": 1, "action": "操作", "testPoint": "测试点", "expected": "预期测量值", "source": "引用的技术文档与页码，无则省略" }],
+  "toolsAndParts": ["所需工具或备件"],
+  "safetyWarnings": ["安全注意事项"]
+}
+probableCauses 按 likelihood 从高到低排列；testSteps 按执行顺序排列。
+`;
+
+const asString = (value: any): string | undefined => {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number") return String(value);
+  return undefined;
+};
+
+const asStringList = (value: any): string[] =>
+  Array.isArray(value) ? value.map(asString).filter((v): v is string => !!v) : [];
+
+const asList = <T>(value: any, map: (entry: any, index: number) => T | null): T[] =>
+  Array.isArray(value) ? value.map(map).filter((v): v is T => v !== null) : [];
+
+export const validateReport = (data: any): RepairReport | undefined => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return undefined;
+
+  const probableCauses = asList<ProbableCause>(data.probableCauses, entry => {
+    const cause = asString(entry?.cause);
+    if (!cause) return null;
+    const likelihood = Number(entry.likelihood);
+    return {
+      cause,
+      likelihood: Number.isFinite(likelihood) ? Math.min(1, Math.max(0, likelihood > 1 ? likelihood / 100 : likelihood)) : 0,
+      reasoning: asString(entry.reasoning),
+      source: asString(entry.source),
+    };
+  }).sort((a, b) => b.likelihood - a.likelihood);
+
+  const suspectedComponents = asList<SuspectedComponent>(data.suspectedComponents, entry => {
+    const part = asString(entry?.part) || asString(entry?.designator);
+    if (!part) return null;
+    return { designator: asString(entry.designator), part, reason: asString(entry.reason) };
+  });
+
+  const testSteps = asList<TestStep>(data.testSteps, (entry, index) => {
+    const action = asString(entry?.action);
+    if (!action) return null;
+    const order = Number(entry.order);
+    return {
+      order: Number.isFinite(order) ? order : index + 1,
+      action,
+      testPoint: asString(entry.testPoint),
+      expected: asString(entry.expected),
+      source: asString(entry.source),
+    };
+  })
+    // 按模型给的序号排序后重新编号：模型可能重复或跳过序号，界面以序号区分步骤
+    .sort((a, b) => a.order - b.order)
+    .map((step, index) => ({ ...step, order: index + 1 }));
+
+  const summary = asString(data.summary);
+  if (!summary && probableCauses.length === 0 && testSteps.length === 0) return undefined;
+
+  return {
+    summary: summary || probableCauses[0]?.cause || "",
+    probableCauses,
+    suspectedComponents,
+    testSteps,
+    toolsAndParts: asStringList(data.toolsAndParts),
+    safetyWarnings: asStringList(data.safetyWarnings),
+  };
+};
+
+/** 从模型完整输出中拆出 Markdown 正文与结构化报告；报告无法解析时正文保持原样 */
+export const extractReport = (text: string): { markdown: string; report?: RepairReport } => {
+  const block = findReportBlock(text);
+  if (block?.json === undefined) return { markdown: text };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(block.json);
+  } catch {
+    return { markdown: text };
+  }
+  const report = validateReport(data);
+  return report ? { markdown: text.slice(0, block.start).trimEnd(), report } : { markdown: text };
+};
+
+/** 流式输出过程中隐藏末尾的报告代码块（含尚未完整的部分） */
+export const stripReportBlock = (text: string): string => {
+  const block = findReportBlock(text);
+  return (block ? text.slice(0, block.start) : text).trimEnd();
+};
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { LibraryItem, LibraryMatch } from "../types";
+
+// 本地案例检索：BM25 打分 + 设备名称/型号匹配，只把最相关的若干案例交给模型
+const K1 = 1.2;
+const B = 0.75;
+const NAME_MATCH_WEIGHT = 3;
+const DEFAULT_LIMIT = 8;
+
+const CJK_RUN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const LATIN_RUN = /[a-z0-9][a-z0-9\-_.\/]*[a-z0-9]|[a-z0-9]/g;
+
+const STOP_WORDS = new Set([
+  "的", "了", "是", "在", "和", "与", "或", "也", "都", "就", "有", "无", "不", "后", "时", "但", "及",
+  "the", "a", "an", "and", "or", "is", "are", "of", "to", "in", "on", "with", "no", "not"
+]);
+
+/**
+ * 中英文混合分词：
+ * - 中文连续片段拆为单字 + 相邻双字（bigram），无需词典即可兼顾召回与精度；
+ * - 英文/数字按连续片段切分并转小写，型号（如 TPS54331、LM317-T）保持整体，
+ *   同时补充按 '-' 等分隔符拆开的子片段。
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const lower = (text || "").toLowerCase();
+
+  for (const run of lower.match(CJK_RUN) || []) {
+    const chars = Array.from(run);
+    chars.forEach((ch, i) => {
+      if (!STOP_WORDS.has(ch)) tokens.push(ch);
+      if (i < chars.length - 1) tokens.push(ch + chars[i + 1]);
+    });
+  }
+
+  for (const word of lower.match(LATIN_RUN) || []) {
+    if (STOP_WORDS.has(word)) continue;
+    tokens.push(word);
+    const pieces = word.split(/[\-_.\/]/).filter(p => p.length > 1);
+    if (pieces.length > 1) tokens.push(...pieces);
+  }
+
+  return tokens;
+}
+
+interface IndexedDoc {
+  item: LibraryItem;
+  termFreq: Map<string, number>;
+  length: number;
+  nameTokens: Set<string>;
+}
+
+export interface LibraryIndex {
+  docs: IndexedDoc[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+export const buildLibraryIndex = (items: LibraryItem[]): LibraryIndex => {
+  const docFreq = new Map<string, number>();
+  let totalLength = 0;
+
+  const docs = items.map(item => {
+    const device = `${item.name} ${item.model || ""}`;
+    const tokens = tokenize(`${device} ${item.description} ${item.analysis || ""}`);
+    const termFreq = countTerms(tokens);
+    termFreq.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    totalLength += tokens.length;
+    return { item, termFreq, length: tokens.length, nameTokens: new Set(tokenize(device)) };
+  });
+
+  return { docs, docFreq, avgLength: docs.length ? totalLength / docs.length : 0 };
+};
+
+const countTerms = (tokens: string[]) => {
+  const termFreq = new Map<string, number>();
+  tokens.forEach(t => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+  return termFreq;
+};
+
+const idf = (docCount: number, docFreq: Map<string, number>, term: string) => {
+  const df = docFreq.get(term) || 0;
+  return Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+};
+
+const bm25 = (termFreq: Map<string, number>, length: number, avgLength: number, queryTerms: string[], termWeights: number[]) => {
+  let score = 0;
+  queryTerms.forEach((term, i) => {
+    const tf = termFreq.get(term);
+    if (!tf) return;
+    const norm = 1 - B + B * (length / (avgLength || 1));
+    score += termWeights[i] * (tf * (K1 + 1)) / (tf + K1 * norm);
+  });
+  return score;
+};
+
+export interface SearchOptions {
+  /** 额外的设备名称/型号，与案例的设备字段做匹配加权 */
+  deviceName?: string;
+  limit?: number;
+  /** 低于该相似度（0~1）的案例不返回 */
+  minSimilarity?: number;
+}
+
+export const searchLibrary = (index: LibraryIndex, query: string, options: SearchOptions = {}): LibraryMatch[] => {
+  const { deviceName, limit = DEFAULT_LIMIT, minSimilarity = 0 } = options;
+  if (index.docs.length === 0) return [];
+
+  const queryTerms = Array.from(new Set(tokenize(`${query} ${deviceName || ""}`)))
+    .filter(t => index.docFreq.has(t));
+  if (queryTerms.length === 0) return [];
+
+  const querySet = new Set(queryTerms);
+  const termWeights = queryTerms.map(t => idf(index.docs.length, index.docFreq, t));
+  // 理论上限：每个词频趋于无穷时 BM25 单项得分趋近 idf * (k1 + 1)，再加上满额的名称匹配分
+  const maxScore = termWeights.reduce((sum, w) => sum + w * (K1 + 1), 0) + NAME_MATCH_WEIGHT;
+
+  const matches: LibraryMatch[] = [];
+  index.docs.forEach(doc => {
+    let score = bm25(doc.termFreq, doc.length, index.avgLength, queryTerms, termWeights);
+
+    if (doc.nameTokens.size > 0) {
+      let hit = 0;
+      doc.nameTokens.forEach(t => { if (querySet.has(t)) hit++; });
+      score += NAME_MATCH_WEIGHT * (hit / doc.nameTokens.size);
+    }
+
+    if (score <= 0) return;
+    const similarity = Math.min(1, score / maxScore);
+    if (similarity < minSimilarity) return;
+    matches.push({ item: doc.item, score, similarity });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+export interface RankedPassage<T> {
+  value: T;
+  score: number;
+  similarity: number;
+}
+
+/** 通用段落检索（如技术文档的各页），与案例检索使用同一套 BM25 打分，但不做名称加权 */
+export const rankPassages = <T>(
+  passages: { value: T; text: string }[],
+  query: string,
+  limit = DEFAULT_LIMIT,
+  minSimilarity = 0
+): RankedPassage<T>[] => {
+  if (passages.length === 0) return [];
+  const docFreq = new Map<string, number>();
+  let totalLength = 0;
+  const docs = passages.map(passage => {
+    const tokens = tokenize(passage.text);
+    const termFreq = countTerms(tokens);
+    termFreq.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    totalLength += tokens.length;
+    return { value: passage.value, termFreq, length: tokens.length };
+  });
+  const avgLength = totalLength / docs.length;
+
+  const queryTerms = Array.from(new Set(tokenize(query))).filter(t => docFreq.has(t));
+  if (queryTerms.length === 0) return [];
+  const termWeights = queryTerms.map(t => idf(docs.length, docFreq, t));
+  const maxScore = termWeights.reduce((sum, w) => sum + w * (K1 + 1), 0);
+
+  return docs
+    .map(doc => {
+      const score = bm25(doc.termFreq, doc.length, avgLength, queryTerms, termWeights);
+      return { value: doc.value, score, similarity: Math.min(1, score / maxScore) };
+    })
+    .filter(r => r.score > 0 && r.similarity >= minSimilarity)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/** 把检索到的案例拼成提示词中的【参考知识库】段落 */
+export const buildKnowledgeContext = (matches: LibraryMatch[]): string | undefined => {
+  if (matches.length === 0) return undefined;
+  return matches.map((m, index) =>
+    `【案例 ${index + 1}】设备: ${m.item.name}${m.item.model ? `（型号 ${m.item.model}）` : ''}\n现象: ${m.item.description}\n方案: ${m.item.analysis || '无'}`
+  ).join('\n---\n');
+};
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ProviderSettings, SourcePreferences } from "../types";
+import { DEFAULT_SETTINGS } from "./llmProvider";
+import { EMPTY_SOURCE_PREFERENCES } from "./groundingService";
+
+// 模型设置体积很小且需要同步读取，保存在 localStorage 中
+const SETTINGS_KEY = "repair-assistant:provider-settings";
+const SOURCES_KEY = "repair-assistant:source-preferences";
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = typeof localStorage !== "undefined" ? localStorage.getItem(SETTINGS_KEY) : null;
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadSourcePreferences = (): SourcePreferences => {
+  try {
+    const raw = typeof localStorage !== "undefined" ? localStorage.getItem(SOURCES_KEY) : null;
+    return raw ? { ...EMPTY_SOURCE_PREFERENCES, ...JSON.parse(raw) } : EMPTY_SOURCE_PREFERENCES;
+  } catch {
+    return EMPTY_SOURCE_PREFERENCES;
+  }
+};
+
+export const saveSourcePreferences = (prefs: SourcePreferences) => {
+  localStorage.setItem(SOURCES_KEY, JSON.stringify(prefs));
+};
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { DiagnosisRecord, LibraryItem, ReferenceDocument, RepairTicket } from "../types";
+
+// 本地持久化：案例库、诊断历史、维修工单与技术文档保存在浏览器 IndexedDB 中，刷新页面后仍可使用
+const DB_NAME = "repair-assistant";
+const DB_VERSION = 3;
+
+const STORE_LIBRARY = "library";
+const STORE_HISTORY = "history";
+const STORE_TICKETS = "tickets";
+const STORE_DOCUMENTS = "documents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_LIBRARY)) {
+        db.createObjectStore(STORE_LIBRARY, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_HISTORY)) {
+        const history = db.createObjectStore(STORE_HISTORY, { keyPath: "id" });
+        history.createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(STORE_TICKETS)) {
+        db.createObjectStore(STORE_TICKETS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_DOCUMENTS)) {
+        db.createObjectStore(STORE_DOCUMENTS, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("无法打开本地数据库"));
+    };
+  });
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function getAll<T>(storeName: string): Promise<T[]> {
+  const result = await runTransaction<T[]>(storeName, "readonly", store => store.getAll());
+  return result || [];
+}
+
+async function putOne<T>(storeName: string, value: T): Promise<void> {
+  await runTransaction(storeName, "readwrite", store => store.put(value));
+}
+
+async function deleteOne(storeName: string, id: string): Promise<void> {
+  await runTransaction(storeName, "readwrite", store => store.delete(id));
+}
+
+async function replaceAll<T>(storeName: string, values: T[]): Promise<void> {
+  await runTransaction(storeName, "readwrite", store => {
+    store.clear();
+    values.forEach(value => store.put(value));
+  });
+}
+
+// ---- 案例库 ----
+
+export const loadLibraryItems = (): Promise<LibraryItem[]> => getAll<LibraryItem>(STORE_LIBRARY);
+
+export const saveLibraryItems = (items: LibraryItem[]): Promise<void> => replaceAll(STORE_LIBRARY, items);
+
+export const saveLibraryItem = (item: LibraryItem): Promise<void> => putOne(STORE_LIBRARY, item);
+
+export const deleteLibraryItem = (id: string): Promise<void> => deleteOne(STORE_LIBRARY, id);
+
+// ---- 诊断历史 ----
+
+export const loadDiagnosisHistory = async (): Promise<DiagnosisRecord[]> => {
+  const records = await getAll<DiagnosisRecord>(STORE_HISTORY);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveDiagnosisRecord = (record: DiagnosisRecord): Promise<void> => putOne(STORE_HISTORY, record);
+
+export const deleteDiagnosisRecord = (id: string): Promise<void> => deleteOne(STORE_HISTORY, id);
+
+// ---- 维修工单 ----
+
+export const loadTickets = async (): Promise<RepairTicket[]> => {
+  const tickets = await getAll<RepairTicket>(STORE_TICKETS);
+  return tickets.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveTicket = (ticket: RepairTicket): Promise<void> => putOne(STORE_TICKETS, ticket);
+
+export const deleteTicket = (id: string): Promise<void> => deleteOne(STORE_TICKETS, id);
+
+// ---- 技术文档 ----
+
+export const loadDocuments = (): Promise<ReferenceDocument[]> => getAll<ReferenceDocument>(STORE_DOCUMENTS);
+
+export const saveDocument = (doc: ReferenceDocument): Promise<void> => putOne(STORE_DOCUMENTS, doc);
+
+export const deleteDocument = (id: string): Promise<void> => deleteOne(STORE_DOCUMENTS, id);
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { DiagnosisRecord, PartUsage, RepairTicket, TicketStatus, WorkOrderInfo } from "../types";
+
+// 维修工单状态流转：接收 → 维修中 ⇄ 待料 → 已修复 / 报废；关闭后可重新打开
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  open: "待处理",
+  in_progress: "维修中",
+  waiting_parts: "待料",
+  repaired: "已修复",
+  scrapped: "报废",
+};
+
+export const OPEN_STATUSES: TicketStatus[] = ["open", "in_progress", "waiting_parts"];
+export const CLOSED_STATUSES: TicketStatus[] = ["repaired", "scrapped"];
+
+// 关闭（已修复/报废）必须通过 closeTicket 记录根因与耗时，不在普通流转中出现
+const TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  open: ["in_progress", "waiting_parts"],
+  in_progress: ["waiting_parts"],
+  waiting_parts: ["in_progress"],
+  repaired: ["in_progress"],
+  scrapped: ["in_progress"],
+};
+
+export const isClosedStatus = (status: TicketStatus) => CLOSED_STATUSES.includes(status);
+
+export const nextStatuses = (status: TicketStatus): TicketStatus[] => TRANSITIONS[status];
+
+export interface NewTicket {
+  model: string;
+  serialNumber?: string;
+  customer?: string;
+  intakeDate: string;
+}
+
+export const createTicket = (input: NewTicket, now = Date.now()): RepairTicket => ({
+  id: `ticket-${now}`,
+  model: input.model,
+  serialNumber: input.serialNumber,
+  customer: input.customer,
+  intakeDate: input.intakeDate,
+  status: "open",
+  createdAt: now,
+  updatedAt: now,
+  diagnosisIds: [],
+  notes: [],
+  parts: [],
+  statusHistory: [{ status: "open", at: now }],
+});
+
+/** 普通状态流转；重新打开已关闭的工单时清除上次的关闭信息 */
+export const changeTicketStatus = (ticket: RepairTicket, status: TicketStatus, now = Date.now()): RepairTicket => {
+  if (!TRANSITIONS[ticket.status].includes(status)) {
+    throw new Error(`工单不能从「${TICKET_STATUS_LABELS[ticket.status]}」变更为「${TICKET_STATUS_LABELS[status]}」`);
+  }
+  const reopened = isClosedStatus(ticket.status);
+  return {
+    ...ticket,
+    status,
+    updatedAt: now,
+    statusHistory: [...ticket.statusHistory, { status, at: now }],
+    closedAt: reopened ? undefined : ticket.closedAt,
+    rootCause: reopened ? undefined : ticket.rootCause,
+    timeSpentHours: reopened ? undefined : ticket.timeSpentHours,
+  };
+};
+
+export interface TicketClosure {
+  status: "repaired" | "scrapped";
+  rootCause: string;
+  timeSpentHours: number;
+}
+
+export const closeTicket = (ticket: RepairTicket, closure: TicketClosure, now = Date.now()): RepairTicket => {
+  if (isClosedStatus(ticket.status)) {
+    throw new Error("工单已关闭");
+  }
+  return {
+    ...ticket,
+    status: closure.status,
+    updatedAt: now,
+    statusHistory: [...ticket.statusHistory, { status: closure.status, at: now }],
+    closedAt: now,
+    rootCause: closure.rootCause,
+    timeSpentHours: closure.timeSpentHours,
+  };
+};
+
+/** 新诊断归入工单；待处理的工单随首次诊断自动转为维修中 */
+export const attachDiagnosis = (ticket: RepairTicket, recordId: string, now = Date.now()): RepairTicket => {
+  const attached = { ...ticket, diagnosisIds: [...ticket.diagnosisIds, recordId], updatedAt: now };
+  return ticket.status === "open" ? changeTicketStatus(attached, "in_progress", now) : attached;
+};
+
+export const addTicketNote = (ticket: RepairTicket, text: string, now = Date.now()): RepairTicket => ({
+  ...ticket,
+  updatedAt: now,
+  notes: [...ticket.notes, { id: `note-${now}`, createdAt: now, text }],
+});
+
+export const addTicketPart = (ticket: RepairTicket, part: Omit<PartUsage, "id">, now = Date.now()): RepairTicket => ({
+  ...ticket,
+  updatedAt: now,
+  parts: [...ticket.parts, { ...part, id: `part-${now}` }],
+});
+
+export const removeTicketPart = (ticket: RepairTicket, partId: string, now = Date.now()): RepairTicket => ({
+  ...ticket,
+  updatedAt: now,
+  parts: ticket.parts.filter(p => p.id !== partId),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 工单天数：从接收日期算起，已关闭的工单截止到关闭时间 */
+export const ticketAgeDays = (ticket: RepairTicket, now = Date.now()): number => {
+  const intake = new Date(`${ticket.intakeDate}T00:00:00`).getTime();
+  const start = Number.isNaN(intake) ? ticket.createdAt : intake;
+  return Math.max(0, Math.floor(((ticket.closedAt ?? now) - start) / DAY_MS));
+};
+
+/** 按“维修中”状态累计的时长估算耗时（小时，取 0.5 的整数倍），作为关闭时的默认值 */
+export const estimateTimeSpentHours = (ticket: RepairTicket, now = Date.now()): number => {
+  let total = 0;
+  ticket.statusHistory.forEach((change, i) => {
+    if (change.status !== "in_progress") return;
+    const end = ticket.statusHistory[i + 1]?.at ?? now;
+    total += end - change.at;
+  });
+  return Math.round((total / (60 * 60 * 1000)) * 2) / 2;
+};
+
+export const groupTicketsByStatus = (tickets: RepairTicket[]): Record<TicketStatus, RepairTicket[]> => {
+  const groups = Object.fromEntries(Object.keys(TICKET_STATUS_LABELS).map(s => [s, [] as RepairTicket[]])) as Record<TicketStatus, RepairTicket[]>;
+  tickets.forEach(ticket => groups[ticket.status].push(ticket));
+  return groups;
+};
+
+/** 根因默认取工单最近一次诊断报告中的首个可疑元件 */
+export const suggestRootCause = (records: DiagnosisRecord[]): string => {
+  const latest = [...records].sort((a, b) => b.createdAt - a.createdAt).find(r => r.result.report?.suspectedComponents.length);
+  const top = latest?.result.report?.suspectedComponents[0];
+  return top ? [top.designator, top.part].filter(Boolean).join(" ") : "";
+};
+
+export const workOrderInfoFromTicket = (ticket: RepairTicket): WorkOrderInfo => ({
+  device: ticket.model,
+  serialNumber: ticket.serialNumber,
+  ticketId: ticket.customer,
+  date: new Date().toISOString().slice(0, 10),
+});
\ No newline at end of file
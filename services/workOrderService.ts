@@ -0,0 +1,163 @@
+import { ImageAttachment, RepairAnalysis, WorkOrderInfo } from "../types";
+import { BlockNode, InlineNode, parseMarkdown } from "./markdownParser";
+import { citationLabel } from "./documentService";
+import { downloadBlob } from "./downloadService";
+
+// 维修工单导出：在浏览器内拼出独立的 HTML 文档，既可直接打印（另存为 PDF），也可下载归档
+export interface WorkOrderContent {
+  info: WorkOrderInfo;
+  description: string;
+  images: ImageAttachment[];
+  result: RepairAnalysis;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const inlineToHtml = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case "text": return escapeHtml(node.value);
+      case "strong": return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case "em": return `<em>${inlineToHtml(node.children)}</em>`;
+      case "code": return `<code>${escapeHtml(node.value)}</code>`;
+      case "link": return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+      case "citation": return `<sup>[${node.index}]</sup>`;
+      case "break": return "<br>";
+    }
+  }).join("");
+
+const blocksToHtml = (blocks: BlockNode[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case "heading": {
+        // 工单内正文标题统一降两级，避免与工单自身的标题层级冲突
+        const level = Math.min(block.level + 2, 6);
+        return `<h${level}>${inlineToHtml(block.children)}</h${level}>`;
+      }
+      case "paragraph": return `<p>${inlineToHtml(block.children)}</p>`;
+      case "list": {
+        const items = block.items.map(item => {
+          const [first, ...rest] = item;
+          return first?.type === "paragraph"
+            ? `<li>${inlineToHtml(first.children)}${blocksToHtml(rest)}</li>`
+            : `<li>${blocksToHtml(item)}</li>`;
+        }).join("");
+        return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+      }
+      case "code": return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+      case "table": {
+        const cell = (tag: string, nodes: InlineNode[], c: number) =>
+          `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ""}>${inlineToHtml(nodes)}</${tag}>`;
+        const head = `<tr>${block.header.map((h, c) => cell("th", h, c)).join("")}</tr>`;
+        const body = block.rows.map(row => `<tr>${row.map((d, c) => cell("td", d, c)).join("")}</tr>`).join("");
+        return `<table><thead>${head}</thead><tbody>${body}</tbody></table>`;
+      }
+      case "blockquote": return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case "hr": return "<hr>";
+    }
+  }).join("\n");
+
+export const markdownToHtml = (content: string) => blocksToHtml(parseMarkdown(content));
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: "PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif; color: #111; margin: 0; padding: 24px; font-size: 13px; line-height: 1.6; }
+  .sheet { max-width: 800px; margin: 0 auto; }
+  h1 { font-size: 22px; text-align: center; margin: 0 0 16px; letter-spacing: 4px; }
+  h2 { font-size: 15px; border-left: 4px solid #14b8a6; padding-left: 8px; margin: 24px 0 8px; }
+  h3, h4, h5, h6 { font-size: 14px; margin: 16px 0 6px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .meta th { width: 14%; white-space: nowrap; }
+  .photos { display: flex; flex-wrap: wrap; gap: 8px; }
+  .photos img { width: 180px; height: 180px; object-fit: cover; border: 1px solid #ccc; }
+  pre { background: #f8fafc; border: 1px solid #ddd; padding: 8px; white-space: pre-wrap; }
+  code { font-family: Consolas, monospace; }
+  blockquote { border-left: 3px solid #ccc; margin: 8px 0; padding-left: 12px; color: #444; }
+  a { color: #0f766e; word-break: break-all; }
+  .notice { color: #92400e; font-size: 12px; }
+  .signoff td { height: 56px; width: 33%; }
+  .signoff span { color: #666; font-size: 12px; }
+  .toolbar { text-align: right; margin-bottom: 12px; }
+  @page { size: A4; margin: 15mm; }
+  @media print {
+    body { padding: 0; }
+    .toolbar { display: none; }
+    h2, .photos img, tr, .signoff { page-break-inside: avoid; }
+  }
+`;
+
+const metaRow = (pairs: [string, string | undefined][]) =>
+  `<tr>${pairs.map(([label, value]) => `<th>${label}</th><td>${escapeHtml(value || "")}</td>`).join("")}</tr>`;
+
+/** 生成完整的工单 HTML 文档（自带样式，脱离应用也能正常打印） */
+export const buildWorkOrderHtml = ({ info, description, images, result }: WorkOrderContent): string => {
+  const sources = result.sources.filter(s => s.web);
+  const sections = [
+    `<h2>故障描述</h2><p>${escapeHtml(description || "（未填写）").replace(/\n/g, "<br>")}</p>`,
+    images.length > 0
+      ? `<h2>故障照片</h2><div class="photos">${images.map(img => `<img src="data:${escapeHtml(img.mimeType)};base64,${img.data}" alt="故障照片">`).join("")}</div>`
+      : "",
+    `<h2>诊断方案</h2>`,
+    result.notices?.length ? result.notices.map(n => `<p class="notice">※ ${escapeHtml(n)}</p>`).join("") : "",
+    markdownToHtml(result.rawText),
+    result.references?.length
+      ? `<h2>参考案例</h2><ol>${result.references.map(ref => `<li>${escapeHtml(ref.item.name)}（相似度 ${Math.round(ref.similarity * 100)}%）：${escapeHtml(ref.item.description)}</li>`).join("")}</ol>`
+      : "",
+    result.documents?.length
+      ? `<h2>引用文档</h2><ol>${result.documents.map(doc => `<li>${escapeHtml(citationLabel(doc))}</li>`).join("")}</ol>`
+      : "",
+    sources.length > 0
+      ? `<h2>参考资源</h2><ol>${sources.map(s => `<li>${escapeHtml(s.web!.title || s.web!.uri)}<br><a href="${escapeHtml(s.web!.uri)}">${escapeHtml(s.web!.uri)}</a></li>`).join("")}</ol>`
+      : "",
+    `<h2>维修确认</h2>
+<table class="signoff">
+  <tr><th>维修结果</th><td colspan="2">□ 已修复　　□ 待料　　□ 报废　　□ 其他：</td></tr>
+  <tr><td><span>维修人签字 / 日期</span></td><td><span>质检签字 / 日期</span></td><td><span>客户签字 / 日期</span></td></tr>
+</table>`,
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<title>维修工单 - ${escapeHtml(info.device)}${info.ticketId ? ` - ${escapeHtml(info.ticketId)}` : ""}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="sheet">
+<div class="toolbar"><button onclick="window.print()">打印 / 另存为 PDF</button></div>
+<h1>维修工单</h1>
+<table class="meta">
+${metaRow([["设备", info.device], ["序列号", info.serialNumber]])}
+${metaRow([["客户/工单号", info.ticketId], ["维修人员", info.technician]])}
+${metaRow([["日期", info.date], ["诊断来源", result.diagnosis === "Archive" ? "案例库存档" : "AI 辅助诊断"]])}
+</table>
+${sections.filter(Boolean).join("\n")}
+</div>
+</body>
+</html>`;
+};
+
+const fileNameOf = (info: WorkOrderInfo) =>
+  `维修工单-${[info.device, info.serialNumber || info.ticketId, info.date].filter(Boolean).join("-").replace(/[\\/:*?"<>|\s]+/g, "_")}.html`;
+
+/** 下载为独立 HTML 文件，可离线打开、打印或归档 */
+export const downloadWorkOrder = (content: WorkOrderContent) => {
+  const blob = new Blob([buildWorkOrderHtml(content)], { type: "text/html;charset=utf-8" });
+  downloadBlob(blob, fileNameOf(content.info));
+};
+
+/** 在新窗口打开打印版工单并唤起打印对话框（可选择“另存为 PDF”） */
+export const printWorkOrder = (content: WorkOrderContent): boolean => {
+  const win = window.open("", "_blank");
+  if (!win) return false;
+  win.document.open();
+  win.document.write(buildWorkOrderHtml(content));
+  win.document.close();
+  // 等图片解码完成再打印，否则照片可能为空白
+  win.onload = () => win.print();
+  return true;
+};
\ No newline at end of file
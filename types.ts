@@ -2,28 +2,275 @@ export interface GroundingChunk {
   web?: {
     uri: string;
     title: string;
+    /** 来源站点域名；Gemini 的链接是检索跳转地址，域名取自标题 */
+    domain?: string;
   };
+  /** 命中可信站点列表 */
+  preferred?: boolean;
+}
+
+/** 回答中的一段文字及支撑它的检索结果（groundingChunks 的下标） */
+export interface GroundingSupport {
+  segment?: {
+    partIndex?: number;
+    /** UTF-8 字节偏移 */
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
 }
 
 export interface GroundingMetadata {
   groundingChunks?: GroundingChunk[];
-  groundingSupports?: any[];
+  groundingSupports?: GroundingSupport[];
   webSearchQueries?: string[];
 }
 
+/** 联网检索来源偏好：可信站点优先引用，屏蔽站点不采用 */
+export interface SourcePreferences {
+  preferredDomains: string[];
+  blockedDomains: string[];
+  /** 只保留可信站点的来源 */
+  onlyPreferred: boolean;
+}
+
+export interface ProbableCause {
+  cause: string;
+  /** 0~1，越大越可能 */
+  likelihood: number;
+  reasoning?: string;
+  /** 依据的技术文档与页码，如“XX 维修手册 第12页” */
+  source?: string;
+}
+
+export interface SuspectedComponent {
+  /** 位号，如 Q3、C12 */
+  designator?: string;
+  part: string;
+  reason?: string;
+}
+
+export interface TestStep {
+  order: number;
+  action: string;
+  testPoint?: string;
+  expected?: string;
+  source?: string;
+}
+
+export interface RepairReport {
+  summary: string;
+  probableCauses: ProbableCause[];
+  suspectedComponents: SuspectedComponent[];
+  testSteps: TestStep[];
+  toolsAndParts: string[];
+  safetyWarnings: string[];
+}
+
 export interface RepairAnalysis {
   diagnosis: string;
   rawText: string;
+  /** 去重、过滤后的联网来源；正文中的 [^n] 引用标记对应第 n 项 */
   sources: GroundingChunk[];
+  /** 模型实际使用的检索词 */
+  searchQueries?: string[];
+  references?: LibraryMatch[];
+  /** 随诊断发送给模型的技术文档摘录 */
+  documents?: DocumentExcerpt[];
+  report?: RepairReport;
+  /** 因当前模型能力受限而降级处理的说明，如图片未发送、无联网检索 */
+  notices?: string[];
+}
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  /** OpenAI 兼容接口的基础地址，如 http://localhost:11434/v1 */
+  endpoint?: string;
+  apiKey?: string;
+  /** OpenAI 兼容后端是否支持图片输入（视觉模型） */
+  supportsImages?: boolean;
+}
+
+export type PromptLanguage = 'zh' | 'en';
+
+/** 提示词方案：不同产品线的安全侧重和术语不同，可分别配置 */
+export interface PromptProfile {
+  id: string;
+  name: string;
+  /** 适用的产品线，仅用于展示 */
+  productLine?: string;
+  /** 角色与侧重点；工作流、引用规则和结构化报告格式由系统统一追加 */
+  systemInstruction: string;
+  /** 故障上报模板，支持 {{description}} 与 {{context}} 占位符 */
+  promptTemplate: string;
+  language: PromptLanguage;
+  useSearch: boolean;
+  temperature?: number;
 }
 
 export enum AppState {
   IDLE,
   ANALYZING,
+  COMPARING,
   SUCCESS,
   ERROR
 }
 
 export interface RepairRequest {
   description: string;
+}
+
+export interface LibraryItem {
+  id: string;
+  name: string;
+  model?: string;
+  category: string;
+  description: string;
+  analysis?: string;
+  /** 维修日期，保留原表格中的文本格式 */
+  date?: string;
+  technician?: string;
+  /** 确认的故障元件/根因 */
+  rootCause?: string;
+  aiAssisted?: boolean;
+  verified?: boolean;
+  /** 从诊断历史存入时对应的记录 id，统计时避免同一次维修计入两次 */
+  sourceRecordId?: string;
+}
+
+export interface LibraryMatch {
+  item: LibraryItem;
+  score: number;
+  similarity: number;
+}
+
+export interface DocumentPage {
+  /** 从 1 开始的页码；纯文本文档按固定长度分段编号 */
+  page: number;
+  text: string;
+}
+
+/** 技术文档（电路图、维修手册、规格书）：在本地提取文字后按页保存 */
+export interface ReferenceDocument {
+  id: string;
+  name: string;
+  kind: 'pdf' | 'text';
+  /** 登记到案例库的设备型号；为空表示仅附加在单次诊断上 */
+  model?: string;
+  pages: DocumentPage[];
+  addedAt: number;
+}
+
+export interface DocumentExcerpt {
+  docId: string;
+  docName: string;
+  page: number;
+  text: string;
+}
+
+export interface ImageAttachment {
+  id: string;
+  data: string;
+  mimeType: string;
+}
+
+export interface FollowUpTurn {
+  id: string;
+  createdAt: number;
+  question: string;
+  answer: string;
+  sources: GroundingChunk[];
+  searchQueries?: string[];
+}
+
+export type StepStatus = 'pending' | 'pass' | 'fail' | 'skipped';
+
+export interface ChecklistStep {
+  id: string;
+  order: number;
+  action: string;
+  testPoint?: string;
+  expected?: string;
+  status: StepStatus;
+  /** 实测值，如 "4.2V"、"0.3Ω"、波形描述 */
+  measured?: string;
+  note?: string;
+  photo?: ImageAttachment;
+}
+
+/** 工单抬头信息，导出/打印维修工单时填写 */
+export interface WorkOrderInfo {
+  device: string;
+  serialNumber?: string;
+  /** 客户名称或工单号 */
+  ticketId?: string;
+  technician?: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+export interface DiagnosisRecord {
+  id: string;
+  createdAt: number;
+  description: string;
+  images: ImageAttachment[];
+  knowledgeBase?: string;
+  result: RepairAnalysis;
+  followUps?: FollowUpTurn[];
+  checklist?: ChecklistStep[];
+  workOrder?: WorkOrderInfo;
+  /** 所属维修工单 */
+  ticketId?: string;
+  /** 诊断时使用的提示词方案，追问沿用同一方案；useSearch 为对比诊断中实际使用的联网设置 */
+  profile?: { id: string; name: string; useSearch?: boolean };
+  /** 多配置对比诊断：参与对比的配置及最终保留（选用或合并）的配置 */
+  comparison?: { candidates: string[]; kept: string[] };
+}
+
+export type TicketStatus = 'open' | 'in_progress' | 'waiting_parts' | 'repaired' | 'scrapped';
+
+export interface TicketNote {
+  id: string;
+  createdAt: number;
+  text: string;
+}
+
+export interface PartUsage {
+  id: string;
+  part: string;
+  /** 位号，如 Q3、C12 */
+  designator?: string;
+  quantity: number;
+}
+
+export interface TicketStatusChange {
+  status: TicketStatus;
+  at: number;
+}
+
+/** 维修工单：一台送修设备从接收到修复/报废的全过程，可包含多次诊断 */
+export interface RepairTicket {
+  id: string;
+  model: string;
+  serialNumber?: string;
+  customer?: string;
+  /** 接收日期 YYYY-MM-DD */
+  intakeDate: string;
+  status: TicketStatus;
+  createdAt: number;
+  updatedAt: number;
+  diagnosisIds: string[];
+  notes: TicketNote[];
+  parts: PartUsage[];
+  statusHistory: TicketStatusChange[];
+  closedAt?: number;
+  /** 关闭时确认的故障根因 */
+  rootCause?: string;
+  /** 关闭时记录的实际耗时（小时） */
+  timeSpentHours?: number;
 }
\ No newline at end of file